@@ -1,12 +1,15 @@
 import type * as Party from "partykit/server";
 import { GameEngine } from "../../shared/game-engine";
+import { StateSync } from "../../shared/state-sync";
 
 export abstract class BaseHandler {
     protected room: Party.Room;
     protected engine: GameEngine;
+    protected sync: StateSync;
 
-    constructor(room: Party.Room, engine: GameEngine) {
+    constructor(room: Party.Room, engine: GameEngine, sync: StateSync) {
         this.room = room;
         this.engine = engine;
+        this.sync = sync;
     }
 }
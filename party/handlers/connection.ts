@@ -1,10 +1,31 @@
 import type * as Party from "partykit/server";
 import { BaseHandler } from "./base";
-import { broadcastState, sendError } from "../utils/broadcaster";
+import { broadcastState, sendError, sendKicked, sendSession } from "../utils/broadcaster";
+import { saveRoomState } from "../utils/storage";
+import { generateSessionSecret, signSessionToken } from "../../shared/session-token";
 
-const STORAGE_KEY = "room_state_v1";
+const SECRET_STORAGE_KEY = "session_secret_v1";
 
 export class ConnectionHandler extends BaseHandler {
+    private secret: string | null = null;
+
+    // SESSION_SECRET from the environment, else a random per-room secret kept in storage
+    private async getSecret(): Promise<string> {
+        if (this.secret) return this.secret;
+
+        const configured = this.room.env.SESSION_SECRET;
+        if (typeof configured === "string" && configured) {
+            this.secret = configured;
+        } else {
+            this.secret = await this.room.storage.get<string>(SECRET_STORAGE_KEY) ?? generateSessionSecret();
+            await this.room.storage.put(SECRET_STORAGE_KEY, this.secret);
+        }
+        return this.secret;
+    }
+
+    async issueSessionToken(userId: string): Promise<string> {
+        return signSessionToken(await this.getSecret(), this.room.id, userId);
+    }
 
     async handleConnect(connection: Party.Connection, ctx: Party.ConnectionContext) {
         try {
@@ -13,29 +34,62 @@ export class ConnectionHandler extends BaseHandler {
             // CRITICAL FIX: Use client-provided ID if available (persistence), else fallback to connection ID
             const userId = url.searchParams.get("userId") || connection.id;
             const avatar = url.searchParams.get("avatar") || "👤";
+            const spectator = url.searchParams.get("spectator") === "1";
+
+            if (this.engine.isBanned(userId, url.searchParams.get("token") ?? undefined)) {
+                console.warn(`[Connect] Rejected ${name}: ${userId} is banned from ${this.room.id}`);
+                sendError(connection, { code: "BANNED", message: "You are banned from this room" });
+                connection.close();
+                return;
+            }
+
+            // New seats get a signed token; existing ones must present theirs
+            const sessionToken = this.engine.needsSessionToken(userId)
+                ? await this.issueSessionToken(userId)
+                : url.searchParams.get("token") ?? undefined;
+
+            if (!this.engine.canClaimSeat(userId, sessionToken, connection.id)) {
+                console.warn(`[Connect] Rejected ${name}: seat ${userId} needs its session token`);
+                sendError(connection, { code: "UNAUTHORIZED", message: "Session token required to reclaim this seat" });
+                connection.close();
+                return;
+            }
 
             console.log(`[Connect] ${name} (${userId}) joined ${this.room.id}`);
 
             // Join Player in Engine
-            const state = this.engine.joinPlayer(userId, name, avatar, connection.id);
+            const state = this.engine.joinPlayer(userId, name, avatar, connection.id, spectator, sessionToken);
+            if (sessionToken) sendSession(connection, sessionToken);
 
             // Save state
-            await this.room.storage.put(STORAGE_KEY, state);
+            await saveRoomState(this.room, state);
 
             // Broadcast entire state
-            broadcastState(this.room, state);
+            broadcastState(this.room, this.engine, this.sync);
         } catch (err) {
             console.error("[Connect Error]", err);
-            sendError(connection, "Failed to join room");
+            sendError(connection, { code: "INTERNAL_ERROR", message: "Failed to join room" });
+        }
+    }
+
+    // Notify and close the connections the engine dropped with a kick
+    closeKicked() {
+        for (const { connectionId, reason } of this.engine.takeKickedConnections()) {
+            const connection = this.room.getConnection(connectionId);
+            if (!connection) continue;
+            sendKicked(connection, reason);
+            connection.close();
+            this.sync.forget(connectionId);
         }
     }
 
     async handleClose(connection: Party.Connection) {
         console.log(`[Disconnect] ${connection.id} left ${this.room.id}`);
         // Engine handles logic (update presence, host protection)
-        const state = this.engine.playerDisconnected(connection.id);
+        this.engine.playerDisconnected(connection.id);
+        this.sync.forget(connection.id);
 
         // Broadcast update
-        broadcastState(this.room, state);
+        broadcastState(this.room, this.engine, this.sync);
     }
 }
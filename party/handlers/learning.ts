@@ -0,0 +1,140 @@
+import type * as Party from "partykit/server";
+import { z } from "zod";
+import { BaseHandler } from "./base";
+import { DictionaryManager } from "../../shared/dictionaries/manager";
+import { DictionaryPack, parseDictionaryKey } from "../../shared/dictionaries/pack";
+import {
+    DEFAULT_LEARNING_CONFIG,
+    LearnedOverlaySchema,
+    LearningJudgement,
+    LearningJudgementSchema,
+    LearningSnapshot,
+    LearningStore,
+    mergeOverlayIntoPack
+} from "../../shared/dictionaries/learning";
+
+// Every game room reports to (and reads the overlay from) this single room of the party
+export const LEARNING_ROOM_ID = "__learning__";
+
+const STORAGE_KEY = "learning_store_v1";
+const SECRET_HEADER = "x-learning-secret";
+const ROOM_HEADER = "x-learning-room"; // Posting game room: the only source of independence we trust
+
+const JudgementBatchSchema = z.object({
+    judgements: z.array(LearningJudgementSchema).max(500)
+});
+
+export class LearningHandler extends BaseHandler {
+    private store: LearningStore | null = null;
+
+    get isLearningRoom(): boolean {
+        return this.room.id === LEARNING_ROOM_ID;
+    }
+
+    private get secret(): string | undefined {
+        const value = this.room.env.LEARNING_SECRET;
+        return typeof value === "string" && value ? value : undefined;
+    }
+
+    private async getStore(): Promise<LearningStore> {
+        if (!this.store) {
+            const promoteAfter = Number(this.room.env.LEARNING_PROMOTE_AFTER) || DEFAULT_LEARNING_CONFIG.promoteAfter;
+            const snapshot = await this.room.storage.get<LearningSnapshot>(STORAGE_KEY);
+            this.store = new LearningStore({ promoteAfter }, snapshot);
+        }
+        return this.store;
+    }
+
+    private getLearningRoom() {
+        return this.room.context?.parties?.main?.get(LEARNING_ROOM_ID);
+    }
+
+    // --- Learning room (HTTP) ---
+
+    /**
+     * GET  -> promoted overlay (used by game rooms)
+     * GET ?format=packs -> dictionary packs with the overlay applied, for maintainers to review
+     * GET ?format=snapshot -> every tracked word with its confirmations
+     * POST { judgements } -> record a batch reported by a game room (needs LEARNING_SECRET)
+     * Judgements count once per posting room: their own gameId is ignored, so a caller cannot fake independent games.
+     */
+    async handleRequest(req: Party.Request): Promise<Response> {
+        const store = await this.getStore();
+
+        if (req.method === "GET") {
+            const format = new URL(req.url).searchParams.get("format");
+            if (format === "snapshot") return Response.json(store.toSnapshot());
+            if (format === "packs") return Response.json(this.buildReviewPacks(store));
+            return Response.json(store.getOverlay());
+        }
+
+        if (req.method === "POST") {
+            if (!this.secret) {
+                return new Response("Learning is disabled: LEARNING_SECRET is not set", { status: 503 });
+            }
+            if (req.headers.get(SECRET_HEADER) !== this.secret) {
+                return new Response("Forbidden", { status: 403 });
+            }
+            const sourceRoom = req.headers.get(ROOM_HEADER);
+            if (!sourceRoom || sourceRoom === LEARNING_ROOM_ID) {
+                return new Response(`Missing ${ROOM_HEADER} header`, { status: 400 });
+            }
+
+            const result = JudgementBatchSchema.safeParse(await req.json().catch(() => null));
+            if (!result.success) {
+                return new Response(result.error.issues[0]?.message ?? "Invalid payload", { status: 400 });
+            }
+
+            result.data.judgements.forEach(j => store.record({ ...j, gameId: sourceRoom.slice(0, 80) }));
+            await this.room.storage.put(STORAGE_KEY, store.toSnapshot());
+            console.log(`📚 [LEARNING] Recorded ${result.data.judgements.length} judgements from ${sourceRoom}`);
+            return Response.json(store.getOverlay());
+        }
+
+        return new Response("Method not allowed", { status: 405 });
+    }
+
+    private buildReviewPacks(store: LearningStore): DictionaryPack[] {
+        const overlay = store.getOverlay();
+        const keys = new Set([...Object.keys(overlay.accepted), ...Object.keys(overlay.rejected)]);
+        const packs: DictionaryPack[] = [];
+        for (const key of keys) {
+            const { categoryId, language } = parseDictionaryKey(key);
+            const pack = DictionaryManager.getPack(categoryId, language);
+            if (pack) packs.push(mergeOverlayIntoPack(pack, overlay));
+        }
+        return packs;
+    }
+
+    // --- Game rooms ---
+
+    // Learning is best effort: a failure never blocks the game
+    async loadOverlay() {
+        try {
+            const response = await this.getLearningRoom()?.fetch();
+            if (!response?.ok) return;
+            const overlay = LearnedOverlaySchema.safeParse(await response.json());
+            if (overlay.success) DictionaryManager.setLearnedOverlay(overlay.data);
+        } catch (err) {
+            console.warn("[LEARNING] Could not load overlay:", err);
+        }
+    }
+
+    async publish(judgements: LearningJudgement[]) {
+        if (judgements.length === 0 || !this.secret) return; // The learning room refuses unsigned batches
+        try {
+            const response = await this.getLearningRoom()?.fetch({
+                method: "POST",
+                headers: { "Content-Type": "application/json", [SECRET_HEADER]: this.secret, [ROOM_HEADER]: this.room.id },
+                body: JSON.stringify({ judgements })
+            });
+            if (!response?.ok) return;
+
+            // The answer is the fresh overlay: next rounds in this room already use it
+            const overlay = LearnedOverlaySchema.safeParse(await response.json());
+            if (overlay.success) DictionaryManager.setLearnedOverlay(overlay.data);
+        } catch (err) {
+            console.warn("[LEARNING] Could not publish judgements:", err);
+        }
+    }
+}
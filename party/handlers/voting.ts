@@ -1,32 +0,0 @@
-import type * as Party from "partykit/server";
-import { BaseHandler } from "./base";
-import { broadcastState, sendError } from "../utils/broadcaster";
-
-const STORAGE_KEY = "room_state_v1";
-
-export class VotingHandler extends BaseHandler {
-
-    async handleVote(payload: any, sender: Party.Connection) {
-        try {
-            const { targetUserId, category } = payload;
-            const state = this.engine.toggleVote(sender.id, targetUserId, category);
-            await this.persistAndBroadcast(state);
-        } catch (err) {
-            sendError(sender, (err as Error).message);
-        }
-    }
-
-    async handleConfirmVotes(sender: Party.Connection) {
-        try {
-            const state = this.engine.confirmVotes(sender.id);
-            await this.persistAndBroadcast(state);
-        } catch (err) {
-            sendError(sender, (err as Error).message);
-        }
-    }
-
-    private async persistAndBroadcast(state: any) {
-        await this.room.storage.put(STORAGE_KEY, state);
-        broadcastState(this.room, state);
-    }
-}
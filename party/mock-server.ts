@@ -1,7 +1,16 @@
-import { WebSocketServer } from 'ws';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
 import { randomUUID } from 'crypto';
 import { URL } from 'url';
-import { GameEngine } from '../shared/game-engine.js'; // Note .js extension for native ESM in Node if needed, or rely on bundler. Since this is run with node directly, might need .ts handler or compilation. 
+import { GameEngine } from '../shared/game-engine.js';
+import { dispatchMessage, getNextTimerTarget } from '../shared/message-router.js';
+import { parseClientMessage } from '../shared/schemas.js';
+import { projectStateFor } from '../shared/state-projection.js';
+import { StateSync } from '../shared/state-sync.js';
+import { DictionaryManager } from '../shared/dictionaries/manager.js';
+import { LearningStore } from '../shared/dictionaries/learning.js';
+import { generateSessionSecret, signSessionToken } from '../shared/session-token.js';
+import { RateLimiter, resolveRateLimitConfig } from '../shared/rate-limiter.js';
+// Note .js extension for native ESM in Node if needed, or rely on bundler. Since this is run with node directly, might need .ts handler or compilation. 
 // Wait, the user command is "npm run dev:mock" which runs "concurrently \"node party/mock-server.js\" \"vite\"".
 // "party/mock-server.js" is a JS file. It cannot import .ts files directly unless using ts-node or similar.
 // But wait, the shared folder has .ts files. 
@@ -176,17 +185,65 @@ console.log('🎉 Mock PartyKit Server running on ws://localhost:1999');
 const rooms = new Map<string, GameEngine>();
 const socketMetadata = new Map<any, { roomId: string, playerId: string }>();
 const roomTimers = new Map<string, NodeJS.Timeout>(); // Track active timers per room
+const coalescedFlushes = new Map<string, NodeJS.Timeout>(); // Pending broadcasts for coalesced frames
+const roomSyncs = new Map<string, StateSync>(); // Versioned patch stream per room
+const learningStore = new LearningStore(); // In memory: the mock process is the whole "deployment"
+const sessionSecret = generateSessionSecret(); // Tokens die with the process, like the rooms
+const rateLimiter = new RateLimiter(resolveRateLimitConfig(process.env.RATE_LIMITS)); // Same limits as PartyKit
+
+// Same flow as PartyKit's learning room, without persistence
+function flushLearning(engine: GameEngine) {
+    const judgements = engine.takeLearningJudgements();
+    if (judgements.length === 0) return;
+    judgements.forEach(j => learningStore.record({ ...j, gameId: engine.getState().roomId ?? j.gameId })); // One confirmation per room
+    DictionaryManager.setLearnedOverlay(learningStore.getOverlay());
+    console.log(`📚 Learned from ${judgements.length} judgements`);
+}
 
-function broadcastToRoom(roomId: string, message: any) {
-    const data = JSON.stringify(message);
+// Per-connection payloads (same projection & patch stream as PartyKit's broadcastState)
+function broadcastStateToRoom(roomId: string) {
+    const engine = getOrCreateRoom(roomId);
+    const sync = getRoomSync(roomId);
+    const state = engine.getState();
+    sync.bump();
     wss.clients.forEach((client) => {
         const metadata = socketMetadata.get(client);
         if (client.readyState === 1 && metadata && metadata.roomId === roomId) {
-            client.send(data);
+            const message = sync.buildMessage(metadata.playerId, projectStateFor(state, engine.getUserId(metadata.playerId)));
+            if (message) client.send(JSON.stringify(message));
         }
     });
 }
 
+// Same as PartyKit: tell kicked sockets why, then close them
+function closeKicked(roomId: string, engine: GameEngine) {
+    const kicked = engine.takeKickedConnections();
+    if (kicked.length === 0) return;
+    wss.clients.forEach((client) => {
+        const metadata = socketMetadata.get(client);
+        const entry = kicked.find(k => k.connectionId === metadata?.playerId);
+        if (!entry || metadata?.roomId !== roomId) return;
+        console.log(`👢 Closing ${entry.connectionId} in ${roomId} (${entry.reason})`);
+        client.send(JSON.stringify({ type: "KICKED", payload: { reason: entry.reason } }));
+        socketMetadata.delete(client); // No more broadcasts for it
+        client.close();
+    });
+}
+
+function sendSnapshot(ws: WebSocket, roomId: string, connectionId: string) {
+    const engine = getOrCreateRoom(roomId);
+    const view = projectStateFor(engine.getState(), engine.getUserId(connectionId));
+    const message = getRoomSync(roomId).buildMessage(connectionId, view, true);
+    if (message) ws.send(JSON.stringify(message));
+}
+
+function getRoomSync(roomId: string): StateSync {
+    if (!roomSyncs.has(roomId)) {
+        roomSyncs.set(roomId, new StateSync());
+    }
+    return roomSyncs.get(roomId)!;
+}
+
 function getOrCreateRoom(roomId: string): GameEngine {
     if (!rooms.has(roomId)) {
         rooms.set(roomId, new GameEngine(roomId));
@@ -195,6 +252,16 @@ function getOrCreateRoom(roomId: string): GameEngine {
     return rooms.get(roomId)!;
 }
 
+// Same as PartyKit: broadcast coalesced frames once the sender could have sent an allowed one
+function scheduleCoalescedFlush(roomId: string, delay: number) {
+    if (coalescedFlushes.has(roomId)) return;
+    coalescedFlushes.set(roomId, setTimeout(() => {
+        coalescedFlushes.delete(roomId);
+        console.log(`🧹 Flushing coalesced updates in ${roomId}`);
+        broadcastStateToRoom(roomId);
+    }, delay));
+}
+
 function scheduleWatchdog(roomId: string) {
     // Clear existing timer
     const existingTimer = roomTimers.get(roomId);
@@ -204,19 +271,10 @@ function scheduleWatchdog(roomId: string) {
     }
 
     const engine = getOrCreateRoom(roomId);
-    const state = engine.getState();
     const now = Date.now();
 
-    let nextTriggerTime: number | null = null;
-
     // Determine next trigger time
-    if (state.status === 'PLAYING' && state.timers.roundEndsAt) {
-        nextTriggerTime = state.timers.roundEndsAt;
-    } else if (state.status === 'REVIEW' && state.timers.votingEndsAt) {
-        nextTriggerTime = state.timers.votingEndsAt;
-    } else if (state.status === 'RESULTS' && state.timers.resultsEndsAt) {
-        nextTriggerTime = state.timers.resultsEndsAt;
-    }
+    const nextTriggerTime = getNextTimerTarget(engine.getState());
 
     if (nextTriggerTime && nextTriggerTime > now) {
         const delay = nextTriggerTime - now;
@@ -231,31 +289,17 @@ function scheduleWatchdog(roomId: string) {
 function handleWatchdogTrigger(roomId: string) {
     const engine = getOrCreateRoom(roomId);
     const state = engine.getState();
-    const now = Date.now();
 
     console.log(`⏰ Watchdog triggered for room ${roomId}, status: ${state.status}`);
 
-    // Check if round timer expired
-    if (state.status === 'PLAYING' && state.timers.roundEndsAt && now >= state.timers.roundEndsAt) {
-        (engine as any).forceEndRound();
-        console.log(`🔴 Forced end of round in room ${roomId}`);
-    }
-    // Check if voting timer expired
-    else if (state.status === 'REVIEW' && state.timers.votingEndsAt && now >= state.timers.votingEndsAt) {
-        (engine as any).forceEndVoting();
-        console.log(`🔴 Forced end of voting in room ${roomId}`);
-    }
-    // Check if results timer expired
-    else if (state.status === 'RESULTS' && state.timers.resultsEndsAt && now >= state.timers.resultsEndsAt) {
-        engine.forceStartNextRound();
-        console.log(`🔴 Auto-starting next round in room ${roomId}`);
+    // Same timeout logic as PartyKit's onAlarm
+    if (engine.checkTimeouts()) {
+        console.log(`🔴 Timeout handled in room ${roomId}, new status: ${engine.getState().status}`);
+        flushLearning(engine);
     }
 
     // Broadcast updated state
-    broadcastToRoom(roomId, {
-        type: "UPDATE_STATE",
-        payload: engine.getState()
-    });
+    broadcastStateToRoom(roomId);
 
     // Schedule next watchdog if needed
     scheduleWatchdog(roomId);
@@ -274,71 +318,83 @@ wss.on('connection', (ws, req) => {
         payload: `Connected to Mock Server Room: ${roomId}`
     }));
 
-    const engine = getOrCreateRoom(roomId);
-    ws.send(JSON.stringify({
-        type: "UPDATE_STATE",
-        payload: engine.getState()
-    }));
+    sendSnapshot(ws, roomId, connectionId);
 
-    ws.on('message', (rawMessage) => {
+    const handleMessage = async (rawMessage: RawData) => {
         try {
-            const message = JSON.parse(rawMessage.toString());
+            const parsed = parseClientMessage(rawMessage.toString());
+            if (!parsed.success) {
+                console.warn(`🚫 Rejected frame from ${connectionId} in ${roomId}:`, parsed.error);
+                ws.send(JSON.stringify({ type: "ERROR", payload: parsed.error }));
+                return;
+            }
+
+            const message = parsed.message;
+
+            const verdict = rateLimiter.check(connectionId, message.type);
+            if (verdict === 'DISCONNECT' || verdict === 'DROP') {
+                console.warn(`🐌 Throttled ${message.type} from ${connectionId} in ${roomId}${verdict === 'DISCONNECT' ? ', disconnecting' : ''}`);
+                ws.send(JSON.stringify({ type: "ERROR", payload: { code: 'RATE_LIMITED', message: 'Too many messages', messageType: message.type } }));
+                if (verdict === 'DISCONNECT') ws.close();
+                return;
+            }
+            // Coalesced frames still update the engine; a trailing flush broadcasts them
+            const coalesced = verdict === 'COALESCE';
+
             console.log(`📨 Received from ${connectionId} in ${roomId}:`, message);
 
             const engine = getOrCreateRoom(roomId);
 
-            if (message.type === 'JOIN') {
-                const avatar = message.payload.avatar || '👤';
-                engine.joinPlayer(message.payload.userId, message.payload.name, avatar, connectionId);
-            } else if (message.type === 'START_GAME') {
-                engine.startGame(connectionId);
-            } else if (message.type === 'STOP_ROUND') {
-                engine.stopRound(connectionId, message.payload.answers);
-            } else if (message.type === 'SUBMIT_ANSWERS') {
-                engine.submitAnswers(connectionId, message.payload.answers);
-            } else if (message.type === 'TOGGLE_VOTE') {
-                engine.toggleVote(connectionId, message.payload.targetUserId, message.payload.category);
-            } else if (message.type === 'CONFIRM_VOTES') {
-                engine.confirmVotes(connectionId);
-            } else if (message.type === 'UPDATE_CONFIG') {
-                engine.updateConfig(connectionId, message.payload);
-            } else if (message.type === 'UPDATE_ANSWERS') {
-                // Reuse submitAnswers logic
-                engine.submitAnswers(connectionId, message.payload.answers);
-            } else if (message.type === 'RESTART_GAME') {
-                console.log("[MOCK] RESTART_GAME received. Resetting...");
-                engine.restartGame(connectionId);
-            } else if (message.type === 'KICK_PLAYER') {
-                engine.kickPlayer(connectionId, message.payload.targetUserId);
+            // JOIN for a seat without a token: sign one before the engine binds it (banned users keep theirs, to be refused)
+            let issuedToken: string | null = null;
+            if (message.type === 'JOIN' && engine.needsSessionToken(message.payload.userId) && !engine.isBanned(message.payload.userId, message.payload.sessionToken)) {
+                issuedToken = await signSessionToken(sessionSecret, roomId, message.payload.userId);
+                message.payload.sessionToken = issuedToken;
             }
 
-            const newState = engine.getState();
+            // Shared router (same dispatch as PartyKit). No storage in mock: persist is ignored.
+            const { effects, error } = dispatchMessage(engine, connectionId, message);
+            if (error) {
+                console.warn(`🔒 Rejected ${message.type} from ${connectionId} in ${roomId}: ${error.code}`);
+                ws.send(JSON.stringify({ type: "ERROR", payload: error }));
+                return;
+            }
+            if (issuedToken) ws.send(JSON.stringify({ type: "SESSION", payload: { token: issuedToken } }));
+            closeKicked(roomId, engine);
 
             // Schedule watchdog based on new state
-            scheduleWatchdog(roomId);
+            if (effects.alarm) scheduleWatchdog(roomId);
 
-            // Always broadcast state update after action
-            broadcastToRoom(roomId, {
-                type: "UPDATE_STATE",
-                payload: newState
-            });
+            if (effects.broadcast && coalesced) {
+                scheduleCoalescedFlush(roomId, rateLimiter.retryAfterMs(connectionId, message.type));
+            } else if (effects.broadcast) {
+                broadcastStateToRoom(roomId);
+            }
+
+            if (effects.snapshot) sendSnapshot(ws, roomId, connectionId);
+            flushLearning(engine);
 
         } catch (e) {
             console.error('Error processing message:', e);
         }
+    };
+
+    // One frame at a time, like PartyKit: frames sent right after a JOIN wait for its token to be signed
+    let inbox = Promise.resolve();
+    ws.on('message', (rawMessage) => {
+        inbox = inbox.then(() => handleMessage(rawMessage));
     });
 
     ws.on('close', () => {
         console.log(`❌ Client disconnected: ${connectionId} from ${roomId}`);
+        getRoomSync(roomId).forget(connectionId);
+        rateLimiter.forget(connectionId);
 
         const engine = getOrCreateRoom(roomId);
         engine.playerDisconnected(connectionId);
 
         // Broadcast immediately
-        broadcastToRoom(roomId, {
-            type: "UPDATE_STATE",
-            payload: engine.getState()
-        });
+        broadcastStateToRoom(roomId);
 
         const metadata = socketMetadata.get(ws);
         if (metadata) {
@@ -346,10 +402,7 @@ wss.on('connection', (ws, req) => {
             if (engine) {
                 engine.playerDisconnected(connectionId);
                 // Broadcast update
-                broadcastToRoom(roomId, {
-                    type: "UPDATE_STATE",
-                    payload: engine.getState()
-                });
+                broadcastStateToRoom(roomId);
 
                 // Cleanup empty room logic removed for persistence
             }
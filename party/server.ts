@@ -1,13 +1,14 @@
 import type * as Party from "partykit/server";
 import { GameEngine } from "../shared/game-engine.js";
 import { RoomState } from "../shared/types.js";
-import { broadcastState, sendError } from "./utils/broadcaster";
+import { parseClientMessage } from "../shared/schemas.js";
+import { dispatchMessage, getNextTimerTarget } from "../shared/message-router.js";
+import { StateSync } from "../shared/state-sync.js";
+import { RateLimiter, resolveRateLimitConfig } from "../shared/rate-limiter.js";
+import { broadcastState, sendError, sendSession, sendSnapshot } from "./utils/broadcaster";
 import { ConnectionHandler } from "./handlers/connection";
-import { PlayerHandler } from "./handlers/player";
-import { GameHandler } from "./handlers/game";
-import { VotingHandler } from "./handlers/voting";
-
-const STORAGE_KEY = "room_state_v1";
+import { LearningHandler } from "./handlers/learning";
+import { loadRoomState, saveRoomState } from "./utils/storage";
 
 export default class Server implements Party.Server {
     options: Party.ServerOptions = {
@@ -16,109 +17,115 @@ export default class Server implements Party.Server {
 
     room: Party.Room;
     engine: GameEngine;
+    sync: StateSync; // Versioned patch stream (per-connection baselines)
+    rateLimiter: RateLimiter; // Token buckets per connection & message type
+    coalescedFlush: ReturnType<typeof setTimeout> | null = null; // Pending persist/broadcast for coalesced frames
 
     // Handlers
     connectionHandler: ConnectionHandler;
-    playerHandler: PlayerHandler;
-    gameHandler: GameHandler;
-    votingHandler: VotingHandler;
+    learningHandler: LearningHandler;
 
     constructor(room: Party.Room) {
         this.room = room;
         this.engine = new GameEngine(room.id);
+        this.sync = new StateSync();
+        this.rateLimiter = new RateLimiter(resolveRateLimitConfig(room.env.RATE_LIMITS));
 
         // Instantiate Handlers
-        this.connectionHandler = new ConnectionHandler(room, this.engine);
-        this.playerHandler = new PlayerHandler(room, this.engine);
-        this.gameHandler = new GameHandler(room, this.engine);
-        this.votingHandler = new VotingHandler(room, this.engine);
+        this.connectionHandler = new ConnectionHandler(room, this.engine, this.sync);
+        this.learningHandler = new LearningHandler(room, this.engine, this.sync);
     }
 
     async onStart() {
-        const stored = await this.room.storage.get<RoomState>(STORAGE_KEY);
-        if (stored) {
+        if (this.learningHandler.isLearningRoom) return; // Not a game room: no state to hydrate
+
+        const stored = await loadRoomState(this.room);
+        if (stored && this.engine.hydrate(stored)) {
             console.log(`[Hydrate] Loaded state for room ${this.room.id}`);
-            this.engine['state'] = stored;
         }
+        await this.learningHandler.loadOverlay();
+    }
+
+    // Only the learning room answers HTTP (overlay export / judgement reports)
+    async onRequest(req: Party.Request) {
+        if (!this.learningHandler.isLearningRoom) return new Response("Not found", { status: 404 });
+        return this.learningHandler.handleRequest(req);
     }
 
     async onConnect(connection: Party.Connection, ctx: Party.ConnectionContext) {
+        if (this.learningHandler.isLearningRoom) {
+            console.warn(`[Connect] Rejected ${connection.id}: ${this.room.id} is not a game room`);
+            sendError(connection, { code: "UNAUTHORIZED", message: "This room does not host games" });
+            connection.close();
+            return;
+        }
         await this.connectionHandler.handleConnect(connection, ctx);
     }
 
     async onMessage(message: string, sender: Party.Connection) {
         try {
-            const data = JSON.parse(message);
-            const { type, payload } = data;
-
-            console.log(`[Message] ${type} from ${sender.id}`);
-
-            switch (type) {
-                // --- Game Logic ---
-                case "START_GAME":
-                    await this.gameHandler.handleStartGame(sender);
-                    break;
-
-                case "STOP_ROUND":
-                    await this.gameHandler.handleStopRound(payload, sender);
-                    break;
-
-                case "SUBMIT_ANSWERS":
-                    await this.gameHandler.handleSubmitAnswers(payload, sender);
-                    break;
-
-                // --- Voting Logic ---
-                case "TOGGLE_VOTE":
-                    await this.votingHandler.handleVote(payload, sender);
-                    break;
-
-                case "CONFIRM_VOTES":
-                    await this.votingHandler.handleConfirmVotes(sender);
-                    break;
+            const parsed = parseClientMessage(message);
+            if (!parsed.success) {
+                console.warn(`[Message] Rejected ${parsed.error.messageType ?? 'frame'} from ${sender.id}: ${parsed.error.code} at '${parsed.error.path ?? ''}'`);
+                sendError(sender, parsed.error);
+                return;
+            }
 
-                // --- Admin Logic ---
-                case "UPDATE_CONFIG":
-                    await this.playerHandler.handleUpdateSettings(payload, sender);
-                    break;
+            const data = parsed.message;
 
-                case "KICK_PLAYER":
-                    await this.playerHandler.handleKick(payload, sender);
-                    break;
+            const verdict = this.rateLimiter.check(sender.id, data.type);
+            if (verdict === 'DISCONNECT') {
+                console.warn(`[RATE LIMIT] Disconnecting ${sender.id}: flooding ${data.type}`);
+                sendError(sender, { code: "RATE_LIMITED", message: "Too many messages", messageType: data.type });
+                sender.close();
+                return;
+            }
+            if (verdict === 'DROP') {
+                sendError(sender, { code: "RATE_LIMITED", message: "Too many messages, slow down", messageType: data.type });
+                return;
+            }
+            // Coalesced frames still update the engine; a trailing flush persists & broadcasts them
+            const coalesced = verdict === 'COALESCE';
 
-                case "ADMIN_RESET":
-                    await this.gameHandler.handleAdminReset(sender);
-                    break;
+            console.log(`[Message] ${data.type} from ${sender.id}${coalesced ? ' (coalesced)' : ''}`);
 
-                case "PONG":
-                    return;
+            // JOIN for a seat without a token: sign one before the engine binds it (banned users keep theirs, to be refused)
+            let issuedToken: string | null = null;
+            if (data.type === 'JOIN' && this.engine.needsSessionToken(data.payload.userId) && !this.engine.isBanned(data.payload.userId, data.payload.sessionToken)) {
+                issuedToken = await this.connectionHandler.issueSessionToken(data.payload.userId);
+                data.payload.sessionToken = issuedToken;
+            }
 
-                default:
-                    console.warn(`Unknown message type: ${type}`);
+            // Shared router (same dispatch as the Mock Server)
+            const { state, effects, error } = dispatchMessage(this.engine, sender.id, data);
+            if (error) {
+                sendError(sender, error);
+                return;
             }
+            if (issuedToken) sendSession(sender, issuedToken);
+            this.connectionHandler.closeKicked(); // Tell kicked sockets why and close them
 
-            // Note: Handlers are now responsible for Persist & Broadcast.
-            // But Alarms still need to be scheduled if state changes imply it.
-            // Ideally, handlers should return checking if alarms needed, or we just check every time.
-            // For Safety/Simplicity in Phase 5, let's trigger alarm check here using current state.
-            await this.scheduleAlarms(this.engine['state']);
+            if (coalesced && (effects.persist || effects.broadcast)) {
+                this.scheduleCoalescedFlush(this.rateLimiter.retryAfterMs(sender.id, data.type));
+            }
+            if (effects.persist && !coalesced) await saveRoomState(this.room, state);
+            if (effects.broadcast && !coalesced) broadcastState(this.room, this.engine, this.sync);
+            if (effects.alarm) await this.scheduleAlarms(state);
+            if (effects.snapshot) sendSnapshot(sender, this.engine, this.sync);
+            await this.learningHandler.publish(this.engine.takeLearningJudgements());
 
         } catch (err) {
             console.error("[SERVER ERROR] processing message:", err);
-            sendError(sender, (err as Error).message || "Unknown error processing request");
+            sendError(sender, {
+                code: "INTERNAL_ERROR",
+                message: (err as Error).message || "Unknown error processing request"
+            });
         }
     }
 
     async scheduleAlarms(state: RoomState) {
         const now = Date.now();
-        let nextTarget: number | null = null;
-
-        if (state.status === 'PLAYING' && state.timers.roundEndsAt) {
-            nextTarget = state.timers.roundEndsAt;
-        } else if (state.status === 'REVIEW' && state.timers.votingEndsAt) {
-            nextTarget = state.timers.votingEndsAt;
-        } else if (state.status === 'RESULTS' && state.timers.resultsEndsAt) {
-            nextTarget = state.timers.resultsEndsAt;
-        }
+        const nextTarget = getNextTimerTarget(state);
 
         if (nextTarget && nextTarget > now) {
             // Only set if different? PartyKit optimizes usually.
@@ -127,14 +134,29 @@ export default class Server implements Party.Server {
         }
     }
 
+    // One pending flush per room: it fires when the sender could have sent an allowed frame again
+    scheduleCoalescedFlush(delayMs: number) {
+        if (this.coalescedFlush) return;
+        this.coalescedFlush = setTimeout(() => {
+            this.coalescedFlush = null;
+            this.flushCoalesced().catch(e => console.error("[SERVER] Error flushing coalesced state:", e));
+        }, delayMs);
+    }
+
+    async flushCoalesced() {
+        await saveRoomState(this.room, this.engine.getState());
+        broadcastState(this.room, this.engine, this.sync);
+    }
+
     async onAlarm() {
-        console.log(`⏰ Watchdog triggered for room ${this.room.id}, status: ${this.engine['state'].status}`);
+        console.log(`⏰ Watchdog triggered for room ${this.room.id}, status: ${this.engine.getState().status}`);
         try {
             const newState = this.engine.checkTimeouts();
             if (newState) {
-                await this.room.storage.put(STORAGE_KEY, newState);
+                await saveRoomState(this.room, newState);
                 await this.scheduleAlarms(newState);
-                broadcastState(this.room, newState);
+                broadcastState(this.room, this.engine, this.sync);
+                await this.learningHandler.publish(this.engine.takeLearningJudgements());
             }
         } catch (e) {
             console.error("[SERVER] Error in onAlarm:", e);
@@ -142,6 +164,7 @@ export default class Server implements Party.Server {
     }
 
     onClose(connection: Party.Connection) {
+        this.rateLimiter.forget(connection.id);
         this.connectionHandler.handleClose(connection);
     }
 }
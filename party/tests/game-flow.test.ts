@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import Server from '../server';
-import { createMockConnection, createMockRoom, createMockContext } from './mocks';
+import { createMockConnection, createMockRoom, createMockContext, attachConnection } from './mocks';
 
 describe('Server Integration - Game Flow', () => {
     let mockRoom: any;
@@ -14,6 +14,8 @@ describe('Server Integration - Game Flow', () => {
 
         host = createMockConnection('host_user');
         guest = createMockConnection('guest_user');
+        attachConnection(mockRoom, host);
+        attachConnection(mockRoom, guest);
 
         // Setup: Join Host and Guest
         await server.onConnect(host, createMockContext('http://localhost/?name=Host'));
@@ -26,7 +28,31 @@ describe('Server Integration - Game Flow', () => {
         await server.onMessage(JSON.stringify({ type: 'START_GAME' }), host);
 
         expect(server.engine['state'].status).toBe('PLAYING');
-        expect(mockRoom.broadcast).toHaveBeenCalled();
+        expect(host.send).toHaveBeenCalled();
+        expect(guest.send).toHaveBeenCalled();
+    });
+
+    it('Should hide rival answers during PLAYING', async () => {
+        await server.onMessage(JSON.stringify({ type: 'START_GAME' }), host);
+        const letter = server.engine['state'].currentLetter!;
+        vi.clearAllMocks();
+
+        await server.onMessage(JSON.stringify({
+            type: 'UPDATE_ANSWERS',
+            payload: { answers: { 'Nombre': `${letter}ana` } }
+        }), guest);
+
+        // Both connections already have a baseline: they receive patches
+        const hostPatch = JSON.parse((host.send as any).mock.calls[0][0]);
+        const guestPatch = JSON.parse((guest.send as any).mock.calls[0][0]);
+        expect(hostPatch.type).toBe('STATE_PATCH');
+
+        const hostPaths = hostPatch.payload.ops.map((op: any) => op.path);
+        expect(hostPaths.some((path: string) => path.startsWith('/answers/guest_user'))).toBe(false);
+        expect(hostPatch.payload.ops).toContainEqual({ op: 'replace', path: '/answerProgress/guest_user', value: 1 });
+
+        const guestPaths = guestPatch.payload.ops.map((op: any) => op.path);
+        expect(guestPaths.some((path: string) => path.startsWith('/answers/guest_user'))).toBe(true);
     });
 
     it('Guest should NOT be able to start game', async () => {
@@ -63,4 +89,26 @@ describe('Server Integration - Game Flow', () => {
         // Assuming there is something to vote on.
         // With simplified mock logic, we can just check status transition.
     });
+
+    it('Should reply with a structured ERROR for invalid frames', async () => {
+        await server.onMessage(JSON.stringify({
+            type: 'TOGGLE_VOTE',
+            payload: { targetUserId: 'host_user' }
+        }), guest);
+
+        const reply = JSON.parse((guest.send as any).mock.calls[0][0]);
+        expect(reply.type).toBe('ERROR');
+        expect(reply.payload.code).toBe('INVALID_PAYLOAD');
+        expect(reply.payload.messageType).toBe('TOGGLE_VOTE');
+        expect(reply.payload.path).toBe('payload.category');
+        expect(host.send).not.toHaveBeenCalled();
+    });
+
+    it('Should reject unknown message types', async () => {
+        await server.onMessage(JSON.stringify({ type: 'HACK_THE_PLANET' }), guest);
+
+        const reply = JSON.parse((guest.send as any).mock.calls[0][0]);
+        expect(reply.payload.code).toBe('UNKNOWN_MESSAGE_TYPE');
+        expect(reply.payload.messageType).toBe('HACK_THE_PLANET');
+    });
 });
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Server from '../server';
+import { createMockRoom, createMockConnection, createMockContext } from './mocks';
+import { LEARNING_ROOM_ID } from '../handlers/learning';
+import { DictionaryManager } from '../../shared/dictionaries/manager';
+
+const judgement = (gameId: string) => ({ categoryId: '3', word: 'Groenlandia', outcome: 'ACCEPTED', gameId });
+
+const SIGNED = { 'x-learning-secret': 's3cret', 'x-learning-room': 'ROOM_A' };
+
+const post = (body: unknown, headers: Record<string, string> = SIGNED) => new Request('http://localhost/parties/main/__learning__', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+});
+
+describe('Server Integration - Learning Room', () => {
+    let mockRoom: any;
+    let server: Server;
+
+    beforeEach(() => {
+        mockRoom = createMockRoom(LEARNING_ROOM_ID);
+        mockRoom.env = { LEARNING_PROMOTE_AFTER: '2', LEARNING_SECRET: 's3cret' };
+        server = new Server(mockRoom);
+    });
+
+    afterEach(() => {
+        DictionaryManager.setLearnedOverlay(null);
+    });
+
+    it('should record judgements and promote them into the overlay', async () => {
+        let response = await server.onRequest(post({ judgements: [judgement('g1')] }) as any);
+        expect(await response.json()).toEqual({ version: 1, accepted: {}, rejected: {} });
+
+        // Another game from the same room is not an independent confirmation
+        response = await server.onRequest(post({ judgements: [judgement('g2')] }) as any);
+        expect((await response.json()).accepted).toEqual({});
+
+        response = await server.onRequest(post({ judgements: [judgement('g3')] }, { ...SIGNED, 'x-learning-room': 'ROOM_B' }) as any);
+        expect((await response.json()).accepted).toEqual({ '3': ['Groenlandia'] });
+        expect(mockRoom.storage.put).toHaveBeenCalledWith('learning_store_v1', expect.anything());
+
+        // Maintainer export: the País pack with the learned word merged
+        const packs = await (await server.onRequest(new Request('http://localhost/?format=packs') as any)).json();
+        expect(packs).toHaveLength(1);
+        expect(packs[0].words).toContain('Groenlandia');
+    });
+
+    it('should reject invalid batches and wrong secrets', async () => {
+        expect((await server.onRequest(post({ judgements: [{ word: '' }] }) as any)).status).toBe(400);
+        expect((await server.onRequest(post({ judgements: [] }, { 'x-learning-secret': 'guess', 'x-learning-room': 'ROOM_A' }) as any)).status).toBe(403);
+        expect((await server.onRequest(post({ judgements: [] }, { 'x-learning-secret': 's3cret' }) as any)).status).toBe(400);
+        expect((await server.onRequest(post({ judgements: [] }) as any)).status).toBe(200);
+    });
+
+    it('should refuse unauthenticated batches when no secret is configured', async () => {
+        delete mockRoom.env.LEARNING_SECRET;
+        const response = await server.onRequest(post({ judgements: [judgement('g1'), judgement('g2')] }, {}) as any);
+        expect(response.status).toBe(503);
+        expect(mockRoom.storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should refuse WebSocket players', async () => {
+        const connection = createMockConnection('intruder');
+        await server.onConnect(connection, createMockContext('http://localhost/?name=Intruder'));
+
+        expect(connection.close).toHaveBeenCalled();
+        expect(JSON.parse((connection.send as any).mock.calls[0][0]).payload.code).toBe('UNAUTHORIZED');
+        expect(server.engine.getState().players).toHaveLength(0);
+    });
+
+    it('should not expose HTTP on game rooms', async () => {
+        const gameServer = new Server(createMockRoom('GAME_ROOM') as any);
+        expect((await gameServer.onRequest(new Request('http://localhost/') as any)).status).toBe(404);
+    });
+});
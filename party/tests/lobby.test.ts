@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import Server from '../server';
-import { createMockConnection, createMockRoom, createMockContext } from './mocks';
+import { createMockConnection, createMockRoom, createMockContext, attachConnection } from './mocks';
 
 describe('Server Integration - Lobby', () => {
     let mockRoom: any;
@@ -15,11 +15,12 @@ describe('Server Integration - Lobby', () => {
     it('should send initial state on connection', async () => {
         const mockConn = createMockConnection('user1');
         const mockCtx = createMockContext('http://localhost/party/LOBBY_TEST?name=Alice');
+        attachConnection(mockRoom, mockConn);
 
         await server.onConnect(mockConn, mockCtx);
 
-        // Verify broadcast was called (since broadcastState calls room.broadcast)
-        expect(mockRoom.broadcast).toHaveBeenCalled();
+        // Verify state was sent (broadcastState sends per-connection payloads)
+        expect(mockConn.send).toHaveBeenCalled();
 
         // Also verify storage put
         expect(mockRoom.storage.put).toHaveBeenCalled();
@@ -58,4 +59,80 @@ describe('Server Integration - Lobby', () => {
         const player = server.engine['state'].players.find(p => p.id === 'u1');
         expect(player?.isConnected).toBe(false);
     });
+
+    it('should issue a session token and require it to reclaim a seat', async () => {
+        const hostConn = createMockConnection('c-host');
+        await server.onConnect(hostConn, createMockContext('http://localhost/?name=Alice&userId=host'));
+
+        const session = vi.mocked(hostConn.send).mock.calls.map(([raw]) => JSON.parse(raw as string)).find(m => m.type === 'SESSION');
+        expect(session?.payload.token).toMatch(/^v1\./);
+        server.onClose(hostConn);
+
+        // Someone who only saw the userId in the shared state
+        const intruder = createMockConnection('c-intruder');
+        await server.onConnect(intruder, createMockContext('http://localhost/?name=Mallory&userId=host'));
+        expect(intruder.close).toHaveBeenCalled();
+        expect(server.engine.getUserId('c-intruder')).toBeUndefined();
+        expect(server.engine['state'].players[0].name).toBe('Alice');
+
+        await server.onMessage(JSON.stringify({ type: 'JOIN', payload: { name: 'Mallory', roomId: 'LOBBY_TEST', userId: 'host', avatar: '😈' } }), intruder);
+        expect(server.engine.getUserId('c-intruder')).toBeUndefined();
+
+        // The real host comes back with the token
+        const back = createMockConnection('c-back');
+        await server.onConnect(back, createMockContext(`http://localhost/?name=Alice&userId=host&token=${session.payload.token}`));
+        expect(server.engine.getUserId('c-back')).toBe('host');
+        expect(server.engine['state'].players[0].isConnected).toBe(true);
+    });
+
+    it('should close kicked connections and refuse banned users on reconnect', async () => {
+        const hostConn = createMockConnection('c-host');
+        const guestConn = createMockConnection('c-guest');
+        attachConnection(mockRoom, hostConn);
+        attachConnection(mockRoom, guestConn);
+        await server.onConnect(hostConn, createMockContext('http://localhost/?name=Alice&userId=host'));
+        await server.onConnect(guestConn, createMockContext('http://localhost/?name=Bob&userId=guest'));
+        const token = vi.mocked(guestConn.send).mock.calls.map(([raw]) => JSON.parse(raw as string)).find(m => m.type === 'SESSION')?.payload.token;
+        vi.clearAllMocks();
+
+        await server.onMessage(JSON.stringify({ type: 'KICK_PLAYER', payload: { targetUserId: 'guest', ban: true } }), hostConn);
+        expect(JSON.parse(vi.mocked(guestConn.send).mock.calls[0][0] as string)).toEqual({ type: 'KICKED', payload: { reason: 'BANNED' } });
+        expect(guestConn.close).toHaveBeenCalled();
+
+        const back = createMockConnection('c-back');
+        await server.onConnect(back, createMockContext(`http://localhost/?name=Bob&userId=guest&token=${token}`));
+        expect(back.close).toHaveBeenCalled();
+        expect(JSON.parse(vi.mocked(back.send).mock.calls[0][0] as string).payload.code).toBe('BANNED');
+        expect(server.engine['state'].players.map(p => p.id)).toEqual(['host']);
+    });
+
+    it('should hydrate stored rooms through the engine and save versioned records', async () => {
+        await mockRoom.storage.put('room_state_v1', {
+            status: 'LOBBY', players: [{ id: 'old', name: 'Carol', score: 3, isHost: true, isConnected: false, lastSeenAt: 1, avatar: '🐢' }],
+            roomId: 'LOBBY_TEST', currentLetter: null, categories: [], answers: {}, answerStatuses: {}, roundsPlayed: 1,
+            votes: {}, whoFinishedVoting: [], roundScores: {},
+            config: { roundDuration: 60, votingDuration: 45, categoriesCount: 5, totalRounds: 5, mode: 'RANDOM', selectedCategories: [] },
+            timers: { roundEndsAt: null, votingEndsAt: null, resultsEndsAt: null }, stoppedBy: null
+        });
+        await server.onStart();
+        expect(server.engine.getState().players[0].name).toBe('Carol');
+        expect(server.engine.getState().spectators).toEqual([]);
+
+        await server.onConnect(createMockConnection('c1'), createMockContext('http://localhost/?name=Alice&userId=u1'));
+        const saved = await mockRoom.storage.get('room_state_v1');
+        expect(saved.version).toBeGreaterThan(1);
+        expect(saved.state.players.map((p: any) => p.id)).toEqual(['old', 'u1']);
+    });
+
+    it('should clamp oversized connect params so the saved room hydrates again', async () => {
+        const longName = 'A'.repeat(40);
+        await server.onConnect(createMockConnection('c1'), createMockContext(`http://localhost/?name=${longName}&userId=u1&avatar=${'🦊'.repeat(20)}`));
+        await server.onConnect(createMockConnection('c2'), createMockContext('http://localhost/?name=%20%20&userId=u2'));
+
+        const coldStart = new Server(mockRoom as any);
+        await coldStart.onStart();
+        expect(coldStart.engine.getState().players.map(p => p.id)).toEqual(['u1', 'u2']);
+        expect(coldStart.engine.getState().players[0]).toMatchObject({ name: 'A'.repeat(20), avatar: '👤' });
+        expect(coldStart.engine.getState().players[1].name).toBe('Jugador');
+    });
 });
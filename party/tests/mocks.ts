@@ -41,6 +41,11 @@ export function createMockRoom(id: string): Party.Room {
     } as unknown as Party.Room;
 }
 
+// Registers a connection so room.getConnections() returns it (PartyKit does this before onConnect)
+export function attachConnection(room: Party.Room, connection: Party.Connection) {
+    (room as unknown as { connections: Map<string, Party.Connection> }).connections.set(connection.id, connection);
+}
+
 export function createMockContext(url: string): Party.ConnectionContext {
     return {
         request: {
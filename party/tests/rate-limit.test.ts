@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Server from '../server';
+import { createMockConnection, createMockRoom, createMockContext, attachConnection } from './mocks';
+
+describe('Server Integration - Rate Limiting', () => {
+    let mockRoom: any;
+    let server: Server;
+    let host: any;
+    let guest: any;
+
+    beforeEach(async () => {
+        mockRoom = createMockRoom('FLOOD_TEST');
+        mockRoom.env.RATE_LIMITS = JSON.stringify({
+            perType: { TOGGLE_VOTE: { capacity: 2, refillPerSecond: 0.1 } },
+            maxStrikes: 3
+        });
+        server = new Server(mockRoom as any);
+
+        host = createMockConnection('host_user');
+        guest = createMockConnection('guest_user');
+        attachConnection(mockRoom, host);
+        attachConnection(mockRoom, guest);
+
+        await server.onConnect(host, createMockContext('http://localhost/?name=Host'));
+        await server.onConnect(guest, createMockContext('http://localhost/?name=Guest'));
+
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('Should coalesce answer floods without losing the latest answers', async () => {
+        await server.onMessage(JSON.stringify({ type: 'START_GAME' }), host);
+        const letter = server.engine['state'].currentLetter!;
+        vi.clearAllMocks();
+
+        for (let i = 1; i <= 7; i++) {
+            await server.onMessage(JSON.stringify({
+                type: 'UPDATE_ANSWERS',
+                payload: { answers: { 'Nombre': `${letter}${'a'.repeat(i)}` } }
+            }), guest);
+        }
+
+        // Default UPDATE_ANSWERS burst is 5: the rest update the engine only
+        expect(mockRoom.storage.put).toHaveBeenCalledTimes(5);
+        expect(server.engine['state'].answers['guest_user']['Nombre']).toBe(`${letter}${'a'.repeat(7)}`);
+        const replies = (guest.send as any).mock.calls.map((call: any[]) => JSON.parse(call[0]));
+        expect(replies.some((reply: any) => reply.type === 'ERROR')).toBe(false);
+    });
+
+    it('Should flush answers when the burst ends on a coalesced frame', async () => {
+        vi.useFakeTimers();
+        await server.onMessage(JSON.stringify({ type: 'START_GAME' }), host);
+        const letter = server.engine['state'].currentLetter!;
+
+        for (let i = 1; i <= 6; i++) {
+            await server.onMessage(JSON.stringify({
+                type: 'UPDATE_ANSWERS',
+                payload: { answers: { 'Nombre': `${letter}${'a'.repeat(i)}` } }
+            }), guest);
+        }
+        vi.clearAllMocks();
+
+        // The 6th frame was coalesced and nothing else arrives: the refill (2/s) flushes it
+        await vi.advanceTimersByTimeAsync(500);
+        expect(mockRoom.storage.put).toHaveBeenCalledTimes(1);
+        expect(mockRoom.storage.put.mock.calls[0][1]).toMatchObject({
+            state: { answers: { guest_user: { 'Nombre': `${letter}${'a'.repeat(6)}` } } }
+        });
+        expect(guest.send).toHaveBeenCalled(); // Rivals only see progress, which did not change
+
+        // A single flush per burst
+        vi.clearAllMocks();
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(mockRoom.storage.put).not.toHaveBeenCalled();
+    });
+
+    it('Should throttle vote spam and disconnect the offender', async () => {
+        const vote = JSON.stringify({ type: 'TOGGLE_VOTE', payload: { targetUserId: 'host_user', category: 'Nombre' } });
+
+        for (let i = 0; i < 4; i++) await server.onMessage(vote, guest);
+
+        const errors = (guest.send as any).mock.calls
+            .map((call: any[]) => JSON.parse(call[0]))
+            .filter((reply: any) => reply.type === 'ERROR');
+        expect(errors).toHaveLength(2);
+        expect(errors[0].payload).toMatchObject({ code: 'RATE_LIMITED', messageType: 'TOGGLE_VOTE' });
+        expect(guest.close).not.toHaveBeenCalled();
+
+        await server.onMessage(vote, guest);
+        expect(guest.close).toHaveBeenCalled();
+
+        // Other connections keep their own buckets
+        vi.clearAllMocks();
+        await server.onMessage(vote, host);
+        expect((host.send as any).mock.calls.some((call: any[]) => JSON.parse(call[0]).type === 'ERROR')).toBe(false);
+    });
+});
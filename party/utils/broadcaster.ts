@@ -1,16 +1,45 @@
 import type * as Party from "partykit/server";
-import { RoomState } from "../../shared/types";
+import { ErrorPayload, KickReason } from "../../shared/types";
+import { GameEngine } from "../../shared/game-engine";
+import { projectStateFor } from "../../shared/state-projection";
+import { StateSync } from "../../shared/state-sync";
 
-export function broadcastState(room: Party.Room, state: RoomState) {
-    room.broadcast(JSON.stringify({
-        type: "UPDATE_STATE",
-        payload: state
-    }));
+// Per-connection payloads: each viewer only gets what it is allowed to see, as a patch when possible
+export function broadcastState(room: Party.Room, engine: GameEngine, sync: StateSync) {
+    const state = engine.getState();
+    sync.bump();
+    for (const connection of room.getConnections()) {
+        const message = sync.buildMessage(connection.id, projectStateFor(state, engine.getUserId(connection.id)));
+        if (message) connection.send(JSON.stringify(message));
+    }
+}
+
+// Full snapshot for a single connection (version gap / resync request)
+export function sendSnapshot(connection: Party.Connection, engine: GameEngine, sync: StateSync) {
+    const view = projectStateFor(engine.getState(), engine.getUserId(connection.id));
+    const message = sync.buildMessage(connection.id, view, true);
+    if (message) connection.send(JSON.stringify(message));
 }
 
-export function sendError(connection: Party.Connection, message: string) {
+export function sendError(connection: Party.Connection, error: ErrorPayload) {
     connection.send(JSON.stringify({
         type: "ERROR",
-        payload: { message }
+        payload: error
+    }));
+}
+
+// Reconnect token for this room (the client stores it and presents it on reconnect)
+export function sendSession(connection: Party.Connection, token: string) {
+    connection.send(JSON.stringify({
+        type: "SESSION",
+        payload: { token }
+    }));
+}
+
+// Tells a kicked client why, right before its connection is closed
+export function sendKicked(connection: Party.Connection, reason: KickReason) {
+    connection.send(JSON.stringify({
+        type: "KICKED",
+        payload: { reason }
     }));
 }
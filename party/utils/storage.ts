@@ -0,0 +1,13 @@
+import type * as Party from "partykit/server";
+import { RoomState } from "../../shared/types";
+import { ROOM_STORAGE_KEY, toStoredRoomState } from "../../shared/room-persistence";
+
+// Every write goes through here so the record always carries its schema version
+export async function saveRoomState(room: Party.Room, state: RoomState) {
+    await room.storage.put(ROOM_STORAGE_KEY, toStoredRoomState(state));
+}
+
+// Raw record: GameEngine.hydrate migrates and validates it
+export async function loadRoomState(room: Party.Room): Promise<unknown> {
+    return room.storage.get(ROOM_STORAGE_KEY);
+}
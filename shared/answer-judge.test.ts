@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameEngine } from './game-engine';
+import { judgeAnswer, getRejectionThreshold } from './answer-judge';
+import { RoomState } from './types';
+
+// Builds a REVIEW state with the given players connected and answers for 'Fruta'
+function buildState(players: string[], answers: Record<string, string>): RoomState {
+    const engine = new GameEngine('JUDGE_TEST', { seed: 1 });
+    players.forEach(id => engine.joinPlayer(id, id, 'av', `conn-${id}`));
+    const state = engine.getState();
+    state.status = 'REVIEW';
+    state.categories = ['Fruta'];
+    state.answers = Object.fromEntries(Object.entries(answers).map(([id, answer]) => [id, { Fruta: answer }]));
+    return state;
+}
+
+describe('Answer Judge', () => {
+    let state: RoomState;
+
+    beforeEach(() => {
+        state = buildState(['a', 'b', 'c', 'd', 'e'], { a: 'Manzana', b: 'Pera', c: 'pera', d: '', e: 'Xylofono' });
+    });
+
+    it('should classify VALID / DUPLICATE / EMPTY', () => {
+        expect(judgeAnswer(state, 'a', 'Fruta')).toMatchObject({ state: 'VALID', score: 100 });
+        expect(judgeAnswer(state, 'b', 'Fruta')).toMatchObject({ state: 'DUPLICATE', score: 50 });
+        expect(judgeAnswer(state, 'd', 'Fruta')).toMatchObject({ state: 'EMPTY', score: 0 });
+    });
+
+    it('should need a strict majority of the connected jury (target excluded)', () => {
+        // 5 connected -> jury of 4 -> 3 votes
+        expect(getRejectionThreshold(state, 'e')).toBe(3);
+
+        state.votes = { e: { Fruta: ['a', 'b'] } };
+        expect(judgeAnswer(state, 'e', 'Fruta')).toMatchObject({ state: 'CONTESTED', score: 100, voteCount: 2, votesNeeded: 3 });
+
+        state.votes.e.Fruta.push('c');
+        expect(judgeAnswer(state, 'e', 'Fruta')).toMatchObject({ state: 'REJECTED', score: 0 });
+    });
+
+    it('should ignore disconnected players in the jury', () => {
+        state.players.filter(p => ['c', 'd'].includes(p.id)).forEach(p => p.isConnected = false);
+        // Jury of 2 (a, b) -> 2 votes
+        expect(getRejectionThreshold(state, 'e')).toBe(2);
+    });
+
+    it('should reject with a single vote in 1vs1', () => {
+        const duel = buildState(['a', 'b'], { a: 'Manzana', b: 'Xylofono' });
+        duel.votes = { b: { Fruta: ['a'] } };
+
+        expect(judgeAnswer(duel, 'b', 'Fruta').state).toBe('REJECTED');
+        // The rival no longer competes: Manzana is the only answer left
+        expect(judgeAnswer(duel, 'a', 'Fruta').state).toBe('VALID');
+    });
+
+    it('should detect duplicates across articles, plurals and diminutives', () => {
+        const zoo = buildState(['a', 'b', 'c'], { a: 'El León', b: 'Leones', c: 'Leoncito' });
+        expect(judgeAnswer(zoo, 'a', 'Fruta').state).toBe('DUPLICATE');
+        expect(judgeAnswer(zoo, 'b', 'Fruta').state).toBe('DUPLICATE');
+
+        const birds = buildState(['a', 'b'], { a: 'Ñandú', b: 'Nandu' });
+        expect(judgeAnswer(birds, 'a', 'Fruta').state).toBe('VALID');
+    });
+
+    it('should compare names as typed, without plural or diminutive rules', () => {
+        const names = buildState(['a', 'b', 'c', 'd'], {});
+        names.answers = { a: { Nombre: 'Carlos' }, b: { Nombre: 'Carlo' }, c: { Nombre: 'Benito' }, d: { Nombre: 'Beno' } };
+        expect(judgeAnswer(names, 'a', 'Nombre').state).toBe('VALID');
+        expect(judgeAnswer(names, 'c', 'Nombre').state).toBe('VALID');
+
+        names.answers.b.Nombre = 'carlos';
+        expect(judgeAnswer(names, 'a', 'Nombre').state).toBe('DUPLICATE');
+    });
+
+    it('should not count rejected answers as duplicates', () => {
+        state.votes = { c: { Fruta: ['a', 'd', 'e'] } };
+        expect(judgeAnswer(state, 'b', 'Fruta')).toMatchObject({ state: 'VALID', score: 100 });
+    });
+
+    it('should match the scores the engine gives at RESULTS', () => {
+        const engine = new GameEngine('JUDGE_TEST', { seed: 1 });
+        ['a', 'b', 'c'].forEach(id => engine.joinPlayer(id, id, 'av', `conn-${id}`));
+        engine.updateConfig('conn-a', { scoringPreset: 'ARGENTINO' });
+        engine.startGame('conn-a');
+        const live = engine.getState();
+        live.categories = ['Fruta'];
+        live.currentLetter = null;
+
+        engine.submitAnswers('conn-a', { Fruta: 'Pera' });
+        engine.submitAnswers('conn-b', { Fruta: 'Pera' });
+        engine.submitAnswers('conn-c', { Fruta: 'Palta' });
+        (engine as any).forceEndRound();
+        engine.toggleVote('conn-a', 'c', 'Fruta');
+
+        const expected = Object.fromEntries(['a', 'b', 'c'].map(id => [id, judgeAnswer(live, id, 'Fruta').score]));
+        ['conn-a', 'conn-b', 'conn-c'].forEach(c => engine.confirmVotes(c));
+
+        expect(engine.getState().roundScores).toEqual(expected);
+    });
+});
@@ -0,0 +1,84 @@
+import { RoomState, WordVerdict } from './types.js';
+import { getScoringRule } from './scoring.js';
+import { normalizeAnswer } from './normalize.js';
+import { hasProperNouns } from './categories.js';
+
+export type ReviewState = 'VALID' | 'DUPLICATE' | 'REJECTED' | 'CONTESTED' | 'EMPTY';
+
+export interface AnswerJudgement {
+    playerId: string;
+    answer: string;
+    state: ReviewState;
+    isDuplicate: boolean;
+    score: number;
+    voteCount: number;
+    votesNeeded: number; // For UI display (e.g., "1/3")
+    votesReceived: string[]; // List of voter IDs
+    verdict?: WordVerdict; // Validator explanation (available from REVIEW on)
+}
+
+/**
+ * Negative votes needed to reject an answer.
+ * Jury = connected players except the one being judged; a strict majority of the jury rejects.
+ */
+export function getRejectionThreshold(state: RoomState, targetPlayerId: string): number {
+    const juryPoolSize = Math.max(1, state.players.filter(p => p.isConnected && p.id !== targetPlayerId).length);
+    return Math.floor(juryPoolSize / 2) + 1;
+}
+
+function isRejected(state: RoomState, playerId: string, category: string): boolean {
+    const voteCount = state.votes[playerId]?.[category]?.length || 0;
+    return voteCount >= getRejectionThreshold(state, playerId);
+}
+
+/**
+ * Single source of truth for how an answer is judged.
+ * Used live by the review screen and once more by the server when the round is scored.
+ */
+export function judgeAnswer(state: RoomState, playerId: string, category: string): AnswerJudgement {
+    const answer = state.answers[playerId]?.[category] || "";
+    const votesReceived = state.votes[playerId]?.[category] || [];
+    const voteCount = votesReceived.length;
+    const votesNeeded = getRejectionThreshold(state, playerId);
+
+    const build = (reviewState: ReviewState, isDuplicate: boolean, score: number): AnswerJudgement => ({
+        playerId,
+        answer,
+        state: reviewState,
+        isDuplicate,
+        score,
+        voteCount,
+        votesNeeded,
+        votesReceived,
+        verdict: state.answerVerdicts?.[playerId]?.[category]
+    });
+
+    // 1. Empty
+    if (!answer.trim()) return build('EMPTY', false, 0);
+
+    // 2. Voted out
+    if (voteCount >= votesNeeded) return build('REJECTED', false, 0);
+
+    // 3. Compare with the other answers still standing
+    const options = { language: state.config.language, properNoun: hasProperNouns(category) }; // "Carlos" is not "Carlo"
+    const normalized = normalizeAnswer(answer, options);
+    let isDuplicate = false;
+    let validAnswersCount = 1; // Self
+
+    for (const player of state.players) {
+        if (player.id === playerId) continue;
+
+        const otherAnswer = state.answers[player.id]?.[category];
+        if (!otherAnswer || !otherAnswer.trim()) continue;
+        if (isRejected(state, player.id, category)) continue; // Does not compete
+
+        validAnswersCount++;
+        if (normalizeAnswer(otherAnswer, options) === normalized) isDuplicate = true;
+    }
+
+    const score = getScoringRule(state.config).scoreAnswer({ isDuplicate, validAnswersCount });
+
+    // Contested: some votes against but not enough to reject (points are kept)
+    if (voteCount > 0) return build('CONTESTED', isDuplicate, score);
+    return build(isDuplicate ? 'DUPLICATE' : 'VALID', isDuplicate, score);
+}
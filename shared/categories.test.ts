@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { MASTER_CATEGORIES, CATEGORY_TRANSLATIONS, getCategoryByName, getLocalizedCategories } from './categories';
+
+describe('Localized Categories', () => {
+    it('should translate every category without cross-language name clashes', () => {
+        for (const item of MASTER_CATEGORIES) {
+            expect(CATEGORY_TRANSLATIONS[item.id], item.name).toBeDefined();
+            for (const name of [item.name, ...Object.values(CATEGORY_TRANSLATIONS[item.id])]) {
+                expect(getCategoryByName(name)?.id, name).toBe(item.id);
+            }
+        }
+    });
+
+    it('should keep ids and tags when localizing', () => {
+        const [first] = getLocalizedCategories('en');
+        expect(first).toEqual({ ...MASTER_CATEGORIES[0], name: 'Name' });
+        expect(getLocalizedCategories('pt').find(c => c.id === '3')?.name).toBe('País');
+    });
+});
@@ -0,0 +1,194 @@
+import type { Language } from './types.js';
+
+export type CategoryDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+export interface CategoryItem {
+    id: string;
+    name: string;
+    tags: string[];
+    difficulty?: CategoryDifficulty; // Missing on custom categories -> MEDIUM
+    properNouns?: boolean;           // Names/places: answers are compared as typed, no plural/diminutive folding
+}
+
+// Tags that describe difficulty rather than a topic group
+export const DIFFICULTY_TAGS = ['FACIL', 'HARD'];
+
+export const MASTER_CATEGORIES: CategoryItem[] = [
+    // CLASICOS
+    { id: '1', name: 'Nombre', tags: ['CLASICO', 'FACIL'], difficulty: 'EASY', properNouns: true },
+    { id: '2', name: 'Apellido', tags: ['CLASICO'], difficulty: 'MEDIUM', properNouns: true },
+    { id: '3', name: 'País', tags: ['CLASICO', 'GEO'], difficulty: 'EASY', properNouns: true },
+    { id: '4', name: 'Ciudad', tags: ['CLASICO', 'GEO'], difficulty: 'EASY', properNouns: true },
+    { id: '5', name: 'Animal', tags: ['CLASICO', 'NATURALEZA'], difficulty: 'EASY' },
+    { id: '6', name: 'Color', tags: ['CLASICO', 'FACIL'], difficulty: 'EASY' },
+    { id: '7', name: 'Fruta/Verdura', tags: ['CLASICO', 'NATURALEZA'], difficulty: 'EASY' },
+    { id: '8', name: 'Cosa', tags: ['CLASICO', 'FACIL'], difficulty: 'EASY' },
+    { id: '9', name: 'Profesión', tags: ['CLASICO', 'SOCIEDAD'], difficulty: 'MEDIUM' },
+
+    // ENTERTAINMENT
+    { id: '10', name: 'Película', tags: ['CINE', 'FUN'], difficulty: 'MEDIUM' },
+    { id: '11', name: 'Serie de TV', tags: ['CINE', 'FUN'], difficulty: 'MEDIUM' },
+    { id: '12', name: 'Actor/Actriz', tags: ['CINE', 'FAMOSO'], difficulty: 'MEDIUM', properNouns: true },
+    { id: '13', name: 'Villano', tags: ['CINE', 'FUN'], difficulty: 'MEDIUM' },
+    { id: '14', name: 'Superhéroe', tags: ['CINE', 'FUN'], difficulty: 'MEDIUM' },
+    { id: '15', name: 'Personaje Ficticio', tags: ['CINE', 'FUN'], difficulty: 'MEDIUM', properNouns: true },
+    { id: '16', name: 'Videojuego', tags: ['GAMING', 'FUN'], difficulty: 'MEDIUM' },
+    { id: '17', name: 'Youtuber/Streamer', tags: ['INTERNET', 'MODERNO'], difficulty: 'MEDIUM', properNouns: true },
+
+    // MUSIC
+    { id: '20', name: 'Canción', tags: ['MUSICA', 'ARTE'], difficulty: 'MEDIUM' },
+    { id: '21', name: 'Cantante/Banda', tags: ['MUSICA', 'FAMOSO'], difficulty: 'MEDIUM', properNouns: true },
+    { id: '22', name: 'Instrumento Musical', tags: ['MUSICA', 'OBJETO'], difficulty: 'MEDIUM' },
+    { id: '23', name: 'Título de Canción de Reggaeton', tags: ['MUSICA', 'FUN', 'HARD'], difficulty: 'HARD' },
+
+    // BRANDS & TECH
+    { id: '30', name: 'Marca', tags: ['MARCAS', 'CONSUMO'], difficulty: 'MEDIUM' },
+    { id: '31', name: 'Marca de Auto', tags: ['MARCAS', 'VEHICULO'], difficulty: 'MEDIUM' },
+    { id: '32', name: 'Marca de Ropa', tags: ['MARCAS', 'MODA'], difficulty: 'MEDIUM' },
+    { id: '33', name: 'Marca de Tecnología', tags: ['MARCAS', 'TECH'], difficulty: 'MEDIUM' },
+    { id: '34', name: 'App Móvil', tags: ['TECH', 'MODERNO'], difficulty: 'MEDIUM' },
+    { id: '35', name: 'Sitio Web', tags: ['TECH', 'INTERNET'], difficulty: 'MEDIUM' },
+
+    // FOOD
+    { id: '40', name: 'Comida', tags: ['COMIDA', 'FACIL'], difficulty: 'EASY' },
+    { id: '41', name: 'Bebida', tags: ['COMIDA'], difficulty: 'MEDIUM' },
+    { id: '42', name: 'Postre', tags: ['COMIDA', 'DULCE'], difficulty: 'MEDIUM' },
+    { id: '43', name: 'Sabor de Helado', tags: ['COMIDA', 'DULCE'], difficulty: 'MEDIUM' },
+    { id: '44', name: 'Ingrediente de Pizza', tags: ['COMIDA'], difficulty: 'MEDIUM' },
+    { id: '45', name: 'Plato Típico', tags: ['COMIDA', 'CULTURA'], difficulty: 'MEDIUM' },
+
+    // GEO & CULTURE
+    { id: '50', name: 'Capital', tags: ['GEO', 'HARD'], difficulty: 'HARD', properNouns: true },
+    { id: '51', name: 'Río/Lago', tags: ['GEO', 'NATURALEZA'], difficulty: 'HARD' },
+    { id: '52', name: 'Idioma', tags: ['CULTURA'], difficulty: 'MEDIUM' },
+    { id: '53', name: 'Moneda', tags: ['CULTURA', 'ECONOMIA'], difficulty: 'HARD' },
+    { id: '54', name: 'Lugar Turístico', tags: ['GEO', 'VIAJES'], difficulty: 'MEDIUM' },
+
+    // RANDOM & FUN
+    { id: '60', name: 'Insulto (suave)', tags: ['FUN', 'SOCIAL'], difficulty: 'MEDIUM' },
+    { id: '61', name: 'Excusa para llegar tarde', tags: ['FUN', 'SITUACIONAL'], difficulty: 'MEDIUM' },
+    { id: '62', name: 'Motivo de divorcio', tags: ['FUN', 'SITUACIONAL'], difficulty: 'MEDIUM' },
+    { id: '63', name: 'Cosa de millonarios', tags: ['FUN', 'SOCIEDAD'], difficulty: 'MEDIUM' },
+    { id: '64', name: 'Cosa que se pierde', tags: ['FUN', 'SITUACIONAL'], difficulty: 'MEDIUM' },
+    { id: '65', name: 'Cosa que huele mal', tags: ['FUN', 'SENSORIAL'], difficulty: 'MEDIUM' },
+    { id: '66', name: 'Miedo/Fobia', tags: ['PSICOLOGIA'], difficulty: 'MEDIUM' },
+    { id: '67', name: 'Pecado Capital', tags: ['CULTURA', 'HARD'], difficulty: 'HARD' },
+
+    // SPORTS
+    { id: '70', name: 'Deporte', tags: ['DEPORTE'], difficulty: 'MEDIUM' },
+    { id: '71', name: 'Deportista', tags: ['DEPORTE', 'FAMOSO'], difficulty: 'MEDIUM', properNouns: true },
+    { id: '72', name: 'Equipo de Fútbol', tags: ['DEPORTE'], difficulty: 'MEDIUM' },
+
+    // HOUSE & OBJECTS
+    { id: '80', name: 'Parte de la Casa', tags: ['HOGAR'], difficulty: 'MEDIUM' },
+    { id: '81', name: 'Electrodoméstico', tags: ['HOGAR', 'TECH'], difficulty: 'MEDIUM' },
+    { id: '82', name: 'Mueble', tags: ['HOGAR'], difficulty: 'MEDIUM' },
+    { id: '83', name: 'Objeto de Cocina', tags: ['HOGAR', 'COCINA'], difficulty: 'MEDIUM' },
+    { id: '84', name: 'Herramienta', tags: ['HOGAR', 'OBJETO'], difficulty: 'MEDIUM' },
+    { id: '85', name: 'Ropa/Accesorio', tags: ['MODA'], difficulty: 'MEDIUM' },
+
+    // NATURE & ANIMALS
+    { id: '90', name: 'Raza de Perro', tags: ['NATURALEZA', 'ANIMALES'], difficulty: 'HARD' },
+    { id: '91', name: 'Insecto', tags: ['NATURALEZA', 'ANIMALES'], difficulty: 'MEDIUM' },
+    { id: '92', name: 'Animal Marino', tags: ['NATURALEZA', 'ANIMALES'], difficulty: 'MEDIUM' },
+    { id: '93', name: 'Flor', tags: ['NATURALEZA'], difficulty: 'MEDIUM' },
+
+    // SITUATIONAL
+    { id: '100', name: 'Lo encuentras en la playa', tags: ['SITUACIONAL', 'VERANO'], difficulty: 'MEDIUM' },
+    { id: '101', name: 'Se compra en farmacia', tags: ['SITUACIONAL', 'COMPRAS'], difficulty: 'MEDIUM' },
+    { id: '102', name: 'Se lleva puesto', tags: ['SITUACIONAL'], difficulty: 'MEDIUM' },
+    { id: '103', name: 'Es redondo', tags: ['SITUACIONAL', 'FORMA'], difficulty: 'MEDIUM' },
+    { id: '104', name: 'Es rojo', tags: ['SITUACIONAL', 'COLOR'], difficulty: 'MEDIUM' }
+];
+
+// Localized names by CategoryItem.id (Spanish is the `name` above)
+export const CATEGORY_TRANSLATIONS: Record<string, Record<Exclude<Language, 'es'>, string>> = {
+    '1': { en: 'Name', pt: 'Nome' },
+    '2': { en: 'Surname', pt: 'Sobrenome' },
+    '3': { en: 'Country', pt: 'País' },
+    '4': { en: 'City', pt: 'Cidade' },
+    '5': { en: 'Animal', pt: 'Animal' },
+    '6': { en: 'Color', pt: 'Cor' },
+    '7': { en: 'Fruit/Vegetable', pt: 'Fruta/Legume' },
+    '8': { en: 'Thing', pt: 'Coisa' },
+    '9': { en: 'Job', pt: 'Profissão' },
+    '10': { en: 'Movie', pt: 'Filme' },
+    '11': { en: 'TV Show', pt: 'Série de TV' },
+    '12': { en: 'Actor/Actress', pt: 'Ator/Atriz' },
+    '13': { en: 'Villain', pt: 'Vilão' },
+    '14': { en: 'Superhero', pt: 'Super-herói' },
+    '15': { en: 'Fictional Character', pt: 'Personagem Fictício' },
+    '16': { en: 'Video Game', pt: 'Videogame' },
+    '17': { en: 'YouTuber/Streamer', pt: 'Youtuber/Streamer' },
+    '20': { en: 'Song', pt: 'Música' },
+    '21': { en: 'Singer/Band', pt: 'Cantor/Banda' },
+    '22': { en: 'Musical Instrument', pt: 'Instrumento Musical' },
+    '23': { en: 'Reggaeton Song Title', pt: 'Título de Música de Reggaeton' },
+    '30': { en: 'Brand', pt: 'Marca' },
+    '31': { en: 'Car Brand', pt: 'Marca de Carro' },
+    '32': { en: 'Clothing Brand', pt: 'Marca de Roupa' },
+    '33': { en: 'Tech Brand', pt: 'Marca de Tecnologia' },
+    '34': { en: 'Mobile App', pt: 'Aplicativo' },
+    '35': { en: 'Website', pt: 'Site' },
+    '40': { en: 'Food', pt: 'Comida' },
+    '41': { en: 'Drink', pt: 'Bebida' },
+    '42': { en: 'Dessert', pt: 'Sobremesa' },
+    '43': { en: 'Ice Cream Flavor', pt: 'Sabor de Sorvete' },
+    '44': { en: 'Pizza Topping', pt: 'Ingrediente de Pizza' },
+    '45': { en: 'Typical Dish', pt: 'Prato Típico' },
+    '50': { en: 'Capital', pt: 'Capital' },
+    '51': { en: 'River/Lake', pt: 'Rio/Lago' },
+    '52': { en: 'Language', pt: 'Idioma' },
+    '53': { en: 'Currency', pt: 'Moeda' },
+    '54': { en: 'Tourist Attraction', pt: 'Ponto Turístico' },
+    '60': { en: 'Insult (mild)', pt: 'Xingamento (leve)' },
+    '61': { en: 'Excuse for Being Late', pt: 'Desculpa para chegar atrasado' },
+    '62': { en: 'Reason for Divorce', pt: 'Motivo de divórcio' },
+    '63': { en: 'Thing Millionaires Have', pt: 'Coisa de milionário' },
+    '64': { en: 'Thing You Lose', pt: 'Coisa que se perde' },
+    '65': { en: 'Thing That Smells Bad', pt: 'Coisa que tem cheiro ruim' },
+    '66': { en: 'Fear/Phobia', pt: 'Medo/Fobia' },
+    '67': { en: 'Deadly Sin', pt: 'Pecado Capital' },
+    '70': { en: 'Sport', pt: 'Esporte' },
+    '71': { en: 'Athlete', pt: 'Atleta' },
+    '72': { en: 'Football Club', pt: 'Time de Futebol' },
+    '80': { en: 'Part of the House', pt: 'Parte da Casa' },
+    '81': { en: 'Home Appliance', pt: 'Eletrodoméstico' },
+    '82': { en: 'Furniture', pt: 'Móvel' },
+    '83': { en: 'Kitchen Item', pt: 'Utensílio de Cozinha' },
+    '84': { en: 'Tool', pt: 'Ferramenta' },
+    '85': { en: 'Clothing/Accessory', pt: 'Roupa/Acessório' },
+    '90': { en: 'Dog Breed', pt: 'Raça de Cachorro' },
+    '91': { en: 'Insect', pt: 'Inseto' },
+    '92': { en: 'Sea Animal', pt: 'Animal Marinho' },
+    '93': { en: 'Flower', pt: 'Flor' },
+    '100': { en: 'Found at the Beach', pt: 'Coisa de praia' },
+    '101': { en: 'Sold at a Pharmacy', pt: 'Se compra na farmácia' },
+    '102': { en: 'You Wear It', pt: 'Se usa no corpo' },
+    '103': { en: 'It Is Round', pt: 'É redondo' },
+    '104': { en: 'It Is Red', pt: 'É vermelho' }
+};
+
+export function getCategoryName(item: CategoryItem, language: Language): string {
+    if (language === 'es') return item.name;
+    return CATEGORY_TRANSLATIONS[item.id]?.[language] ?? item.name;
+}
+
+// Master list with names in the room language (ids and tags unchanged)
+export function getLocalizedCategories(language: Language): CategoryItem[] {
+    return MASTER_CATEGORIES.map(item => ({ ...item, name: getCategoryName(item, language) }));
+}
+
+// Lookup by display name in any language (answers, votes and rounds are keyed by name)
+export function getCategoryByName(name: string): CategoryItem | undefined {
+    return MASTER_CATEGORIES.find(c => c.name === name)
+        ?? MASTER_CATEGORIES.find(c => Object.values(CATEGORY_TRANSLATIONS[c.id] ?? {}).includes(name));
+}
+
+export function hasProperNouns(category: string): boolean {
+    return getCategoryByName(category)?.properNouns === true;
+}
+
+export function getCategoryDifficulty(item: CategoryItem): CategoryDifficulty {
+    return item.difficulty ?? 'MEDIUM';
+}
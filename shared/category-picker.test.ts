@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { MASTER_CATEGORIES, getCategoryDifficulty } from './categories';
+import { pickRoundCategories } from './category-picker';
+import { nextRandom } from './rng';
+
+// Seeded generator so every run checks the same picks
+const seeded = (seed: number) => {
+    let state = seed;
+    return () => {
+        const [value, next] = nextRandom(state);
+        state = next;
+        return value;
+    };
+};
+
+describe('Category Picker', () => {
+    it('should cap HARD categories, include EASY ones and respect the per-tag cap', () => {
+        for (let seed = 1; seed <= 50; seed++) {
+            const picked = pickRoundCategories(MASTER_CATEGORIES, 8, { random: seeded(seed), maxPerTag: 2, balanceDifficulty: true });
+            expect(new Set(picked.map(c => c.id)).size).toBe(8);
+            expect(picked.filter(c => getCategoryDifficulty(c) === 'HARD').length).toBeLessThanOrEqual(2);
+            expect(picked.filter(c => getCategoryDifficulty(c) === 'EASY').length).toBeGreaterThanOrEqual(2);
+            expect(picked.filter(c => c.tags.includes('CINE')).length).toBeLessThanOrEqual(2);
+        }
+    });
+
+    it('should only use the filtered tags while there are enough categories', () => {
+        const picked = pickRoundCategories(MASTER_CATEGORIES, 5, { random: seeded(3), tags: ['CLASICO', 'GEO'], maxPerTag: 10 });
+        expect(picked.every(c => c.tags.includes('CLASICO') || c.tags.includes('GEO'))).toBe(true);
+
+        // Only 6 CINE categories: an 8-category board is topped up from the rest of the pool
+        const topped = pickRoundCategories(MASTER_CATEGORIES, 8, { random: seeded(3), tags: ['CINE'], maxPerTag: 2 });
+        expect(topped).toHaveLength(8);
+        expect(topped.filter(c => c.tags.includes('CINE'))).toHaveLength(6);
+    });
+
+    it('should avoid recent categories unless the pool runs out', () => {
+        const pool = MASTER_CATEGORIES.slice(0, 9);
+        const recentIds = pool.slice(0, 5).map(c => c.id);
+        const fresh = pickRoundCategories(pool, 4, { random: seeded(9), recentIds });
+        expect(fresh.some(c => recentIds.includes(c.id))).toBe(false);
+
+        expect(pickRoundCategories(pool, 9, { random: seeded(9), recentIds })).toHaveLength(9);
+    });
+});
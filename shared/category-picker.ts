@@ -0,0 +1,82 @@
+import { CategoryItem, DIFFICULTY_TAGS, getCategoryDifficulty } from './categories.js';
+import { shuffle } from './rng.js';
+
+export interface CategoryPickOptions {
+    random: () => number;        // Room PRNG (keeps picks reproducible from the seed)
+    tags?: string[];             // Only categories with at least one of these tags (empty = all)
+    maxPerTag?: number;          // Max picked categories sharing a topic tag (CINE, GEO...)
+    recentIds?: string[];        // Played in the last rounds: only used when nothing fresh fits
+    balanceDifficulty?: boolean; // Cap HARD categories and guarantee some EASY ones
+    isViable?: (item: CategoryItem) => boolean; // Playable with the round letter (non-viable ones go last)
+}
+
+const topicTags = (item: CategoryItem): string[] => item.tags.filter(tag => !DIFFICULTY_TAGS.includes(tag));
+
+/**
+ * Picks `count` categories for a round. Constraints are soft: when the pool is too small
+ * (narrow tag filter, few categories) they are relaxed in order instead of returning fewer.
+ *   1. Categories matching the tag filter, honouring the per-tag cap and difficulty balance.
+ *   2. Categories matching the tag filter, ignoring those limits.
+ *   3. The rest of the pool.
+ *   4. Categories without enough answers for the round letter.
+ * Within each step, categories played in the last rounds come after fresh ones.
+ */
+export function pickRoundCategories(pool: CategoryItem[], count: number, options: CategoryPickOptions): CategoryItem[] {
+    const { random, tags = [], maxPerTag = Infinity, recentIds = [], balanceDifficulty = false, isViable = () => true } = options;
+    const target = Math.min(count, pool.length);
+    const recent = new Set(recentIds);
+
+    const matchesFilter = (item: CategoryItem) => tags.length === 0 || item.tags.some(tag => tags.includes(tag));
+    const playable = pool.filter(isViable);
+    const filtered = playable.filter(matchesFilter);
+    const rest = playable.filter(item => !matchesFilter(item));
+    const unplayable = pool.filter(item => !isViable(item));
+
+    // Shuffle each group separately so the priority order survives
+    const byFreshness = (items: CategoryItem[]) => [
+        ...shuffle(items.filter(item => !recent.has(item.id)), random),
+        ...shuffle(items.filter(item => recent.has(item.id)), random)
+    ];
+    const preferred = byFreshness(filtered);
+    const candidates = [...preferred, ...byFreshness(rest), ...byFreshness(unplayable)];
+
+    const maxHard = balanceDifficulty ? Math.max(1, Math.floor(target / 4)) : Infinity;
+    const easyAvailable = preferred.filter(item => getCategoryDifficulty(item) === 'EASY').length;
+    const minEasy = balanceDifficulty ? Math.min(Math.ceil(target / 4), easyAvailable) : 0;
+
+    const picked: CategoryItem[] = [];
+    const tagCounts = new Map<string, number>();
+    let hardCount = 0;
+    let easyCount = 0;
+
+    const fits = (item: CategoryItem): boolean => {
+        const difficulty = getCategoryDifficulty(item);
+        if (difficulty === 'HARD' && hardCount >= maxHard) return false;
+        // Keep enough free slots for the EASY quota
+        const slotsLeft = target - picked.length - 1;
+        if (difficulty !== 'EASY' && slotsLeft < minEasy - easyCount) return false;
+        return topicTags(item).every(tag => (tagCounts.get(tag) ?? 0) < maxPerTag);
+    };
+
+    const take = (item: CategoryItem) => {
+        picked.push(item);
+        topicTags(item).forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1));
+        const difficulty = getCategoryDifficulty(item);
+        if (difficulty === 'HARD') hardCount++;
+        if (difficulty === 'EASY') easyCount++;
+    };
+
+    const fill = (items: CategoryItem[], accept: (item: CategoryItem) => boolean) => {
+        for (const item of items) {
+            if (picked.length >= target) return;
+            if (!picked.includes(item) && accept(item)) take(item);
+        }
+    };
+
+    fill(preferred, fits);
+    fill(preferred, () => true);
+    fill(candidates, () => true);
+
+    // EASY ones tend to land last (reserved slots): shuffle the board order
+    return shuffle(picked, random);
+}
@@ -0,0 +1,8 @@
+// Time source for the engine. Tests inject a fake clock to drive timeouts.
+export interface Clock {
+    now(): number;
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now()
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { parseWordList, toCustomCategoryId, matchCustomWord } from './custom-categories';
+import { validateWord, hasDictionary } from './validator';
+import { CustomCategoryInputSchema, CUSTOM_CATEGORY_LIMITS } from './schemas';
+import { CustomCategory } from './types';
+import { GameEngine } from './game-engine';
+import { projectStateFor } from './state-projection';
+
+const OFFICE: CustomCategory = {
+    id: 'custom-cosas-de-la-oficina',
+    name: 'Cosas de la oficina',
+    tags: ['OFICINA'],
+    words: ['Abrochadora', 'Café', 'Post-it']
+};
+
+describe('Custom Categories', () => {
+    it('should parse pasted text, JSON arrays and dictionary packs', () => {
+        expect(parseWordList('Café\nAbrochadora, Post-it;  ')).toEqual(['Café', 'Abrochadora', 'Post-it']);
+        expect(parseWordList('["Café", "cafe", 3, "Mate"]')).toEqual(['Café', 'Mate']); // Normalized duplicates dropped
+        expect(parseWordList('{"categoryId": "x", "words": ["Mate"]}')).toEqual(['Mate']);
+        expect(parseWordList('[no es json')).toEqual(['[no es json']);
+        expect(parseWordList('   ')).toEqual([]);
+    });
+
+    it('should derive a stable id from the name', () => {
+        expect(toCustomCategoryId('  Cosas de la Oficina! ')).toBe('custom-cosas-de-la-oficina');
+        expect(toCustomCategoryId('Año Nuevo')).toBe('custom-año-nuevo');
+    });
+
+    it('should enforce size limits through the schema', () => {
+        const tooMany = Array.from({ length: CUSTOM_CATEGORY_LIMITS.maxWords + 1 }, (_, i) => `palabra${i}`);
+        expect(CustomCategoryInputSchema.safeParse({ name: 'Oficina', tags: [], words: tooMany }).success).toBe(false);
+        expect(CustomCategoryInputSchema.safeParse({ name: '   ', tags: [], words: [] }).success).toBe(false);
+        expect(CustomCategoryInputSchema.safeParse({ name: 'Oficina', tags: ['A'], words: ['Mate'] }).success).toBe(true);
+    });
+
+    it('should validate words against the room list only', () => {
+        expect(matchCustomWord(OFFICE, 'cafe', 0)).toEqual({ word: 'Café', distance: 0 });
+
+        expect(validateWord('Abrochadorra', OFFICE.name, { letter: 'A', customCategories: [OFFICE] })).toEqual({ reason: 'FUZZY_MATCH', isValid: true, match: 'Abrochadora', distance: 1 });
+        expect(validateWord('Archivo', OFFICE.name, { letter: 'A', customCategories: [OFFICE] }).reason).toBe('NOT_IN_DICTIONARY');
+        expect(hasDictionary(OFFICE.name, { customCategories: [OFFICE] })).toBe(true);
+
+        // Another room (no custom categories) knows nothing about it
+        expect(validateWord('Café', OFFICE.name).reason).toBe('UNKNOWN_CATEGORY');
+        expect(hasDictionary(OFFICE.name)).toBe(false);
+
+        // Without a word list players vote
+        const empty = { ...OFFICE, words: [] };
+        expect(validateWord('Café', OFFICE.name, { customCategories: [empty] }).reason).toBe('UNKNOWN_CATEGORY');
+    });
+
+    it('should only send the word list to viewers who can edit it', () => {
+        const engine = new GameEngine('room-custom');
+        engine.joinPlayer('host', 'Host', 'av', 'conn-host');
+        engine.joinPlayer('guest', 'Guest', 'av', 'conn-guest');
+        engine.addCustomCategory('conn-host', { name: OFFICE.name, tags: OFFICE.tags, words: OFFICE.words });
+
+        const [hostView] = projectStateFor(engine.getState(), 'host').customCategories;
+        expect(hostView.words).toEqual(OFFICE.words);
+
+        const guestView = projectStateFor(engine.getState(), 'guest').customCategories;
+        expect(guestView[0].words).toEqual([]);
+        expect(guestView[0].wordCount).toBe(3);
+        expect(projectStateFor(engine.getState(), null).customCategories[0].words).toEqual([]);
+
+        // Guests still know the category is judged automatically
+        expect(hasDictionary(OFFICE.name, { customCategories: guestView })).toBe(true);
+        expect(engine.getState().customCategories[0].words).toEqual(OFFICE.words);
+    });
+});
@@ -0,0 +1,76 @@
+import { CustomCategory, Language } from './types.js';
+import { CategoryItem, getLocalizedCategories } from './categories.js';
+import { CUSTOM_CATEGORY_LIMITS } from './schemas.js';
+import { foldAccents, normalizeAnswer } from './normalize.js';
+import { boundedLevenshtein, FuzzyMatch } from './dictionaries/trie.js';
+
+// Stable id derived from the name ("Cosas de la oficina" -> "custom-cosas-de-la-oficina")
+export function toCustomCategoryId(name: string): string {
+    const slug = foldAccents(name.trim().toLowerCase()).replace(/[^a-z0-9ñ]+/g, '-').replace(/^-|-$/g, '');
+    return `custom-${slug}`;
+}
+
+/**
+ * Word list pasted by the host: a JSON array, a JSON object with `words` (dictionary pack format)
+ * or plain text separated by new lines, commas or semicolons.
+ */
+export function parseWordList(text: string): string[] {
+    const trimmed = text.trim();
+    if (!trimmed) return [];
+
+    let raw: unknown[] | null = null;
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        try {
+            const data = JSON.parse(trimmed);
+            if (Array.isArray(data)) raw = data;
+            else if (Array.isArray(data?.words)) raw = data.words;
+        } catch {
+            // Not JSON after all: fall back to plain text
+        }
+    }
+
+    const candidates = raw
+        ? raw.filter((w): w is string => typeof w === 'string')
+        : trimmed.split(/[\n,;]+/);
+
+    return dedupeWords(candidates);
+}
+
+// Trimmed, length-capped words without normalized duplicates ("Café" / "cafe")
+export function dedupeWords(candidates: string[]): string[] {
+    const seen = new Set<string>();
+    const words: string[] = [];
+    for (const candidate of candidates) {
+        const word = candidate.trim().slice(0, CUSTOM_CATEGORY_LIMITS.maxWordLength);
+        const key = normalizeAnswer(word);
+        if (!key || seen.has(key)) continue; // Keep the first spelling
+        seen.add(key);
+        words.push(word);
+    }
+    return words;
+}
+
+export function findCustomCategory(customCategories: CustomCategory[] | undefined, name: string): CustomCategory | undefined {
+    return customCategories?.find(c => c.name === name);
+}
+
+// Categories a room can play: the master list in the room language plus its own
+export function getCategoryPool(customCategories: CustomCategory[] | undefined, language: Language = 'es'): CategoryItem[] {
+    return [...getLocalizedCategories(language), ...(customCategories ?? [])];
+}
+
+// Closest accepted word of a custom category (lists are small: a linear bounded scan is enough)
+export function matchCustomWord(category: CustomCategory, word: string, maxDistance: number, language: Language = 'es'): FuzzyMatch | null {
+    const normalized = normalizeAnswer(word, { language });
+    let best: FuzzyMatch | null = null;
+
+    for (const entry of category.words) {
+        const limit = best ? best.distance - 1 : maxDistance;
+        const distance = boundedLevenshtein(normalized, normalizeAnswer(entry, { language }), limit);
+        if (distance <= limit) {
+            best = { word: entry, distance };
+            if (distance === 0) break;
+        }
+    }
+    return best;
+}
@@ -0,0 +1,35 @@
+// Registry of every pack in this folder (bundlers need static imports).
+// Adding a pack: drop `<name>.json` (or `<name>.<locale>.json`) here and list it below; manager.test.ts fails if a file is missing.
+import animales from './animales.json';
+import animalesEn from './animales.en.json';
+import animalesPt from './animales.pt.json';
+import colores from './colores.json';
+import coloresEn from './colores.en.json';
+import coloresPt from './colores.pt.json';
+import deportes from './deportes.json';
+import frutas from './frutas.json';
+import frutasEn from './frutas.en.json';
+import frutasPt from './frutas.pt.json';
+import nombres from './nombres.json';
+import paises from './paises.json';
+import paisesEn from './paises.en.json';
+import paisesPt from './paises.pt.json';
+import profesiones from './profesiones.json';
+
+export const DICTIONARY_PACK_FILES: Record<string, unknown> = {
+    'animales.json': animales,
+    'animales.en.json': animalesEn,
+    'animales.pt.json': animalesPt,
+    'colores.json': colores,
+    'colores.en.json': coloresEn,
+    'colores.pt.json': coloresPt,
+    'deportes.json': deportes,
+    'frutas.json': frutas,
+    'frutas.en.json': frutasEn,
+    'frutas.pt.json': frutasPt,
+    'nombres.json': nombres,
+    'paises.json': paises,
+    'paises.en.json': paisesEn,
+    'paises.pt.json': paisesPt,
+    'profesiones.json': profesiones
+};
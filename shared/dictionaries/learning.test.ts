@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { LearningStore, collectJudgements, mergeOverlayIntoPack, LearningJudgement } from './learning';
+import { DictionaryManager } from './manager';
+import { GameEngine } from '../game-engine';
+import { validateWord } from '../validator';
+
+const accept = (word: string, gameId: string): LearningJudgement => ({ categoryId: '3', word, outcome: 'ACCEPTED', gameId });
+
+describe('Dictionary Learning', () => {
+    afterEach(() => {
+        DictionaryManager.setLearnedOverlay(null);
+    });
+
+    it('should promote a word after enough confirmations from distinct games', () => {
+        const store = new LearningStore({ promoteAfter: 2 });
+
+        store.record(accept('Groenlandia', 'game-1'));
+        store.record(accept('groenlandia', 'game-1')); // Same game: counted once
+        expect(store.getOverlay().accepted).toEqual({});
+
+        store.record(accept('Groenlandia', 'game-2'));
+        expect(store.getOverlay().accepted).toEqual({ '3': ['Groenlandia'] });
+
+        // Snapshots restore the same overlay
+        expect(new LearningStore({ promoteAfter: 2 }, store.toSnapshot()).getOverlay()).toEqual(store.getOverlay());
+    });
+
+    it('should keep learned words apart per language', () => {
+        const store = new LearningStore({ promoteAfter: 1 });
+        store.record({ ...accept('Greenland', 'game-1'), language: 'en' });
+        DictionaryManager.setLearnedOverlay(store.getOverlay());
+
+        expect(store.getOverlay().accepted).toEqual({ '3.en': ['Greenland'] });
+        expect(validateWord('Greenland', 'Country', { language: 'en' }).reason).toBe('EXACT');
+        expect(validateWord('Greenland', 'País').reason).toBe('NOT_IN_DICTIONARY');
+    });
+
+    it('should apply the overlay in validateWord', () => {
+        expect(validateWord('Groenlandia', 'País').reason).toBe('NOT_IN_DICTIONARY');
+
+        DictionaryManager.setLearnedOverlay({ version: 1, accepted: { '3': ['Groenlandia'] }, rejected: { '3': ['Perú'] } });
+        expect(validateWord('groenlandia', 'País')).toEqual({ reason: 'EXACT', isValid: true, match: 'Groenlandia', distance: 0 });
+        expect(validateWord('Peru', 'País').reason).toBe('NOT_IN_DICTIONARY');
+    });
+
+    it('should collect human judgements when the round is scored', () => {
+        const engine = new GameEngine('LEARN_ROOM');
+        engine.joinPlayer('a', 'A', 'av', 'conn-a');
+        engine.joinPlayer('b', 'B', 'av', 'conn-b');
+        engine.joinPlayer('c', 'C', 'av', 'conn-c');
+        engine.startGame('conn-a');
+
+        const state = engine.getState();
+        state.categories = ['País', 'Película'];
+        state.currentLetter = 'P';
+
+        engine.submitAnswers('conn-b', { 'País': 'Perú', 'Película': 'Psicosis' });
+        engine.submitAnswers('conn-c', { 'País': 'Pindonguistán' });
+        engine.stopRound('conn-a', { 'País': 'Portugal' });
+
+        // Perú is in the pack but players vote it down; Pindonguistán is missing but nobody objects
+        engine.toggleVote('conn-a', 'b', 'País');
+        engine.toggleVote('conn-c', 'b', 'País');
+        expect(collectJudgements(state, state.gameId!)).toEqual([
+            { categoryId: '3', word: 'Perú', outcome: 'REJECTED', gameId: state.gameId, language: 'es' },
+            { categoryId: '3', word: 'Pindonguistán', outcome: 'ACCEPTED', gameId: state.gameId, language: 'es' }
+        ]);
+
+        ['conn-a', 'conn-b', 'conn-c'].forEach(conn => engine.confirmVotes(conn));
+        expect(engine.getState().status).toBe('RESULTS');
+        expect(engine.takeLearningJudgements()).toHaveLength(2);
+        expect(engine.takeLearningJudgements()).toHaveLength(0);
+    });
+
+    it('should export packs with the overlay merged for review', () => {
+        const pack = DictionaryManager.getPack('3')!;
+        const merged = mergeOverlayIntoPack(pack, { version: 1, accepted: { '3': ['Groenlandia', 'peru'] }, rejected: { '3': ['Perú'] } });
+
+        expect(merged.version).toBe(pack.version + 1);
+        expect(merged.words).toContain('Groenlandia');
+        expect(merged.words).not.toContain('Perú');
+        expect(mergeOverlayIntoPack(pack, { version: 1, accepted: {}, rejected: {} })).toEqual(pack);
+    });
+});
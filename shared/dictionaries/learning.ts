@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { Language, RoomState } from '../types.js';
+import { LanguageSchema } from '../schemas.js';
+import { judgeAnswer } from '../answer-judge.js';
+import { getCategoryByName } from '../categories.js';
+import { normalizeAnswer } from '../normalize.js';
+import { DictionaryPack, dictionaryKey, getPackLanguage, parseDictionaryKey } from './pack.js';
+
+/**
+ * Dictionary learning from peer votes.
+ * Rooms report what players decided in REVIEW; once a word collects enough confirmations
+ * (one per game) it is promoted into the "learned" overlay that `validateWord` consults.
+ * The overlay is never written into the JSON packs automatically: maintainers export and review it.
+ */
+
+export const LearningJudgementSchema = z.object({
+    categoryId: z.string().max(60),
+    word: z.string().trim().min(1).max(40),
+    outcome: z.enum(['ACCEPTED', 'REJECTED']), // Passed the vote while missing / voted down while matching
+    gameId: z.string().max(80),
+    language: LanguageSchema.optional() // Pack language of the room (default: 'es')
+});
+
+export type LearningJudgement = z.infer<typeof LearningJudgementSchema>;
+
+export const LearnedOverlaySchema = z.object({
+    version: z.literal(1),
+    accepted: z.record(z.string(), z.array(z.string())), // Dictionary key ("3", "3.en") -> words to add
+    rejected: z.record(z.string(), z.array(z.string()))  // Dictionary key -> words to drop
+});
+
+export type LearnedOverlay = z.infer<typeof LearnedOverlaySchema>;
+
+export interface LearningConfig {
+    promoteAfter: number; // Confirmations (distinct games) needed to enter the overlay
+}
+
+export const DEFAULT_LEARNING_CONFIG: LearningConfig = { promoteAfter: 3 };
+
+const MAX_TRACKED_GAMES = 50; // Per word and outcome, enough for any sane threshold
+
+interface LearningEntry {
+    categoryId: string; // Dictionary key: Spanish entries keep the bare id stored before languages existed
+    word: string;       // First spelling seen
+    accepted: string[]; // Game ids
+    rejected: string[];
+}
+
+export interface LearningSnapshot {
+    entries: LearningEntry[];
+}
+
+export class LearningStore {
+    private entries = new Map<string, LearningEntry>(); // "<dictionary key>:<normalized>" -> entry
+    private config: LearningConfig;
+
+    constructor(config: LearningConfig = DEFAULT_LEARNING_CONFIG, snapshot?: LearningSnapshot) {
+        this.config = config;
+        for (const entry of snapshot?.entries ?? []) {
+            this.entries.set(this.keyOf(entry.categoryId, entry.word), entry);
+        }
+    }
+
+    private keyOf(key: string, word: string): string {
+        const { language } = parseDictionaryKey(key);
+        return `${key}:${normalizeAnswer(word, { language })}`;
+    }
+
+    // One confirmation per game: replaying the same judgement is a no-op
+    public record(judgement: LearningJudgement) {
+        const packKey = dictionaryKey(judgement.categoryId, judgement.language);
+        const key = this.keyOf(packKey, judgement.word);
+        const entry = this.entries.get(key) ?? { categoryId: packKey, word: judgement.word, accepted: [], rejected: [] };
+        const games = judgement.outcome === 'ACCEPTED' ? entry.accepted : entry.rejected;
+
+        if (!games.includes(judgement.gameId)) {
+            games.push(judgement.gameId);
+            if (games.length > MAX_TRACKED_GAMES) games.shift();
+        }
+        this.entries.set(key, entry);
+    }
+
+    // Promoted words only; ties and mixed signals below the threshold stay out
+    public getOverlay(): LearnedOverlay {
+        const overlay: LearnedOverlay = { version: 1, accepted: {}, rejected: {} };
+        const { promoteAfter } = this.config;
+
+        for (const entry of this.entries.values()) {
+            let bucket: Record<string, string[]> | null = null;
+            if (entry.accepted.length >= promoteAfter && entry.accepted.length > entry.rejected.length) bucket = overlay.accepted;
+            if (entry.rejected.length >= promoteAfter && entry.rejected.length > entry.accepted.length) bucket = overlay.rejected;
+            if (!bucket) continue;
+
+            if (!bucket[entry.categoryId]) bucket[entry.categoryId] = [];
+            bucket[entry.categoryId].push(entry.word);
+        }
+        return overlay;
+    }
+
+    public toSnapshot(): LearningSnapshot {
+        return { entries: Array.from(this.entries.values()) };
+    }
+}
+
+/**
+ * Human judgements worth learning from a finished REVIEW (call before votes are cleared).
+ * Only global packs are learned; 1vs1 rounds are skipped because their votes come from the validator.
+ */
+export function collectJudgements(state: RoomState, gameId: string): LearningJudgement[] {
+    const judgements: LearningJudgement[] = [];
+    const language: Language = state.config.language ?? 'es';
+    if (state.players.filter(p => p.isConnected).length < 3) return judgements;
+
+    for (const category of state.categories) {
+        const categoryId = getCategoryByName(category)?.id;
+        if (!categoryId || state.customCategories.some(c => c.name === category)) continue;
+
+        for (const player of state.players) {
+            const verdict = state.answerVerdicts[player.id]?.[category];
+            if (!verdict) continue;
+
+            const judgement = judgeAnswer(state, player.id, category);
+            const word = judgement.answer.trim();
+
+            if (judgement.state === 'REJECTED' && verdict.isValid) {
+                judgements.push({ categoryId, word, outcome: 'REJECTED', gameId, language });
+            } else if (judgement.state !== 'REJECTED' && judgement.state !== 'EMPTY' && verdict.reason === 'NOT_IN_DICTIONARY') {
+                judgements.push({ categoryId, word, outcome: 'ACCEPTED', gameId, language });
+            }
+        }
+    }
+    return judgements;
+}
+
+// Pack with the overlay applied (for maintainers to diff against data/*.json before merging)
+export function mergeOverlayIntoPack(pack: DictionaryPack, overlay: LearnedOverlay): DictionaryPack {
+    const language = getPackLanguage(pack);
+    const key = dictionaryKey(pack.categoryId, language);
+    const normalize = (word: string) => normalizeAnswer(word, { language });
+
+    const rejected = new Set((overlay.rejected[key] ?? []).map(normalize));
+    const words = pack.words.filter(w => !rejected.has(normalize(w)));
+    const known = new Set(words.map(normalize));
+
+    for (const word of overlay.accepted[key] ?? []) {
+        if (known.has(normalize(word))) continue;
+        known.add(normalize(word));
+        words.push(word);
+    }
+
+    const changed = words.length !== pack.words.length || words.some((w, i) => w !== pack.words[i]);
+    return { ...pack, words, version: changed ? pack.version + 1 : pack.version };
+}
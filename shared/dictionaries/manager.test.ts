@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { DictionaryManager } from './manager';
+import { DICTIONARY_PACK_FILES } from './data/index';
+import { DictionaryPackSchema } from './pack';
+import { MASTER_CATEGORIES } from '../categories';
+import { validateWord } from '../validator';
+
+describe('Dictionary Packs', () => {
+    it('should register every JSON file in data/', () => {
+        const dataDir = fileURLToPath(new URL('./data', import.meta.url));
+        const files = readdirSync(dataDir).filter(f => f.endsWith('.json')).sort();
+
+        expect(Object.keys(DICTIONARY_PACK_FILES).sort()).toEqual(files);
+    });
+
+    it('should only contain valid packs for existing categories', () => {
+        const ids = new Set(MASTER_CATEGORIES.map(c => c.id));
+        for (const [file, raw] of Object.entries(DICTIONARY_PACK_FILES)) {
+            const result = DictionaryPackSchema.safeParse(raw);
+            expect(result.success, file).toBe(true);
+            if (result.success) expect(ids.has(result.data.categoryId), file).toBe(true);
+        }
+    });
+
+    it('should resolve packs by category name and accept aliases', () => {
+        expect(DictionaryManager.hasPack('País')).toBe(true);
+        expect(DictionaryManager.hasExact('País', 'peru')).toBe(true);
+        expect(DictionaryManager.hasExact('País', 'EEUU')).toBe(true);
+        expect(DictionaryManager.hasExact('Fruta/Verdura', 'Manzana')).toBe(true);
+    });
+
+    it('should leave categories without a pack to a human vote', () => {
+        expect(DictionaryManager.hasPack('Película')).toBe(false);
+        expect(validateWord('Matrix', 'Película')).toEqual({ reason: 'UNKNOWN_CATEGORY', isValid: false });
+        expect(validateWord('Xyzzy', 'País').reason).toBe('NOT_IN_DICTIONARY');
+    });
+
+    it('should explain every verdict with a reason code and the canonical entry', () => {
+        expect(validateWord('  ', 'País')).toEqual({ reason: 'EMPTY', isValid: false });
+        expect(validateWord('Idiota', 'Nombre')).toEqual({ reason: 'BLACKLISTED', isValid: false });
+        expect(validateWord('Chile', 'País', { letter: 'P' })).toEqual({ reason: 'WRONG_LETTER', isValid: false });
+        expect(validateWord('peru', 'País', { letter: 'P' })).toEqual({ reason: 'EXACT', isValid: true, match: 'Perú', distance: 0 });
+        expect(validateWord('Perúu', 'País')).toMatchObject({ reason: 'FUZZY_MATCH', match: 'Perú', distance: 1 });
+        expect(validateWord('EEUU', 'País').match).toBe('Estados Unidos');
+    });
+
+    it('should load packs per language under localized category names', () => {
+        expect(DictionaryManager.hasExact('Country', 'Germany', 'en')).toBe(true);
+        expect(DictionaryManager.hasExact('País', 'Germany')).toBe(false);
+        expect(validateWord('USA', 'Country', { language: 'en' }).match).toBe('United States');
+        expect(validateWord('alemanha', 'País', { letter: 'A', language: 'pt' })).toEqual({ reason: 'EXACT', isValid: true, match: 'Alemanha', distance: 0 });
+        expect(validateWord('Strawberries', 'Fruit/Vegetable', { language: 'en' }).match).toBe('Strawberry');
+        expect(validateWord('Matrix', 'Movie', { language: 'en' }).reason).toBe('UNKNOWN_CATEGORY');
+    });
+});
@@ -1,50 +1,145 @@
-
-// Import raw JSON data
-import animales from './data/animales.json';
-import colores from './data/colores.json';
-import frutas from './data/frutas.json';
-import nombres from './data/nombres.json';
-import paises from './data/paises.json';
-
-// Helper to normalized strings: Lowercase + NFD + Remove Accents + Trim
-const normalize = (str: string) => str.trim().toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+import { DICTIONARY_PACK_FILES } from './data/index.js';
+import { DictionaryPack, DictionaryPackSchema, dictionaryKey, getPackLanguage, parseDictionaryKey } from './pack.js';
+import { getCategoryByName } from '../categories.js';
+import { FuzzyTrie, FuzzyMatch } from './trie.js';
+import { normalizeAnswer, startsWithLetter } from '../normalize.js';
+import type { LearnedOverlay } from './learning.js';
+import type { Language } from '../types.js';
 
 export class DictionaryManager {
-    // Static collection storage
-    private static datasets: Record<string, Set<string>> = {};
+    // Static collection storage (dictionary key "<id>[.<lang>]" -> normalized word/alias -> canonical entry)
+    private static datasets: Record<string, Map<string, string>> = {};
+    private static packs: Record<string, DictionaryPack> = {};
+    private static indexes: Record<string, FuzzyTrie> = {}; // Fuzzy index, built on first lookup
+    private static letterCounts: Record<string, Map<string, number>> = {}; // Letter -> entry count, filled on demand
+    // Learned overlay (peer votes): exact matches only, never part of the fuzzy index
+    private static learnedWords: Record<string, Map<string, string>> = {};
+    private static learnedRejections: Record<string, Set<string>> = {};
     private static initialized = false;
 
-    // Initialize/Load mappings
+    // Load every registered pack (invalid packs are skipped, never fatal)
     private static initialize() {
         if (this.initialized) return;
 
-        this.addDictionary('Animal', animales);
-        this.addDictionary('Color', colores);
-        this.addDictionary('Fruta/Verdura', frutas);
-        this.addDictionary('Nombre', nombres);
-        this.addDictionary('País', paises);
+        for (const [file, raw] of Object.entries(DICTIONARY_PACK_FILES)) {
+            const result = DictionaryPackSchema.safeParse(raw);
+            if (!result.success) {
+                console.error(`[DICTIONARY] Invalid pack ${file}:`, result.error.issues[0]?.message);
+                continue;
+            }
+            this.addPack(result.data);
+        }
 
         this.initialized = true;
     }
 
-    private static addDictionary(category: string, rawList: string[]) {
-        const set = new Set<string>();
-        for (const word of rawList) {
-            set.add(normalize(word));
+    private static addPack(pack: DictionaryPack) {
+        const language = getPackLanguage(pack);
+        const key = dictionaryKey(pack.categoryId, language);
+        const normalize = (word: string) => normalizeAnswer(word, { language });
+
+        const entries = this.datasets[key] ?? new Map<string, string>();
+        for (const word of pack.words) {
+            entries.set(normalize(word), word);
         }
-        this.datasets[category] = set;
+        // Aliases point at their canonical entry ("EEUU" -> "Estados Unidos")
+        for (const [canonical, variants] of Object.entries(pack.aliases ?? {})) {
+            for (const variant of variants) {
+                if (!entries.has(normalize(variant))) entries.set(normalize(variant), canonical);
+            }
+        }
+        this.datasets[key] = entries;
+        this.packs[key] = pack;
+        delete this.indexes[key];
+        delete this.letterCounts[key];
+    }
+
+    // Categories are referenced by (localized) name in the game state; packs are keyed by id + language
+    private static resolveKey(category: string, language: Language): string | undefined {
+        const id = getCategoryByName(category)?.id;
+        return id ? dictionaryKey(id, language) : undefined;
     }
 
-    public static hasExact(category: string, word: string): boolean {
+    public static hasPack(category: string, language: Language = 'es'): boolean {
+        return this.getCollection(category, language) !== undefined;
+    }
+
+    public static getPack(categoryId: string, language: Language = 'es'): DictionaryPack | undefined {
         if (!this.initialized) this.initialize();
+        return this.packs[dictionaryKey(categoryId, language)];
+    }
 
-        const collection = this.datasets[category];
-        if (!collection) return false;
-        return collection.has(normalize(word));
+    public static hasExact(category: string, word: string, language: Language = 'es'): boolean {
+        return this.getCanonical(category, word, language) !== undefined;
     }
 
-    public static getCollection(category: string): Set<string> | undefined {
+    // Dictionary entry as written in the pack (accents, casing) for a word or alias
+    public static getCanonical(category: string, word: string, language: Language = 'es'): string | undefined {
+        const normalized = normalizeAnswer(word, { language });
+        const canonical = this.getCollection(category, language)?.get(normalized);
+        if (canonical) return canonical;
+
+        const key = this.resolveKey(category, language);
+        return key ? this.learnedWords[key]?.get(normalized) : undefined;
+    }
+
+    // Replaces the learned overlay (null clears it)
+    public static setLearnedOverlay(overlay: LearnedOverlay | null) {
+        this.learnedWords = {};
+        this.learnedRejections = {};
+        if (!overlay) return;
+
+        for (const [key, words] of Object.entries(overlay.accepted)) {
+            const { language } = parseDictionaryKey(key);
+            this.learnedWords[key] = new Map(words.map(w => [normalizeAnswer(w, { language }), w]));
+        }
+        for (const [key, words] of Object.entries(overlay.rejected)) {
+            const { language } = parseDictionaryKey(key);
+            this.learnedRejections[key] = new Set(words.map(w => normalizeAnswer(w, { language })));
+        }
+    }
+
+    // Players keep voting this word down even though the pack accepts it
+    public static isLearnedRejection(category: string, word: string, language: Language = 'es'): boolean {
+        const key = this.resolveKey(category, language);
+        return key ? this.learnedRejections[key]?.has(normalizeAnswer(word, { language })) === true : false;
+    }
+
+    // Closest dictionary word within `maxDistance` edits (input is normalized here)
+    public static findClosest(category: string, word: string, maxDistance: number, language: Language = 'es'): FuzzyMatch | null {
+        const key = this.resolveKey(category, language);
+        const collection = this.getCollection(category, language);
+        if (!key || !collection) return null;
+
+        if (!this.indexes[key]) {
+            this.indexes[key] = new FuzzyTrie(collection.keys());
+        }
+        return this.indexes[key].findClosest(normalizeAnswer(word, { language }), maxDistance);
+    }
+
+    // Distinct pack entries starting with `letter` (undefined without a pack)
+    public static countStartingWith(category: string, letter: string, language: Language = 'es'): number | undefined {
+        const key = this.resolveKey(category, language);
+        const collection = this.getCollection(category, language);
+        if (!key || !collection) return undefined;
+
+        if (!this.letterCounts[key]) this.letterCounts[key] = new Map();
+        const counts = this.letterCounts[key];
+        let count = counts.get(letter);
+        if (count === undefined) {
+            count = 0;
+            for (const canonical of new Set(collection.values())) {
+                if (startsWithLetter(canonical, letter, language)) count++;
+            }
+            counts.set(letter, count);
+        }
+        return count;
+    }
+
+    public static getCollection(category: string, language: Language = 'es'): Map<string, string> | undefined {
         if (!this.initialized) this.initialize();
-        return this.datasets[category];
+
+        const key = this.resolveKey(category, language);
+        return key ? this.datasets[key] : undefined;
     }
 }
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import type { Language } from '../types.js';
+import { isLanguage } from '../languages.js';
+
+/**
+ * Dictionary pack: accepted words for one category, keyed by `CategoryItem.id` and `metadata.locale`
+ * (names can be renamed or translated, ids are stable). Packs without a locale are Spanish.
+ */
+export const DictionaryPackSchema = z.object({
+    categoryId: z.string().min(1),
+    version: z.number().int().min(1),
+    words: z.array(z.string().min(1)).min(1),
+    aliases: z.record(z.string(), z.array(z.string().min(1))).optional(), // Canonical word -> accepted variants
+    metadata: z.object({
+        description: z.string().optional(),
+        locale: z.string().optional(),
+        source: z.string().optional()
+    }).optional()
+});
+
+export type DictionaryPack = z.infer<typeof DictionaryPackSchema>;
+
+export function getPackLanguage(pack: DictionaryPack): Language {
+    const locale = pack.metadata?.locale;
+    return isLanguage(locale) ? locale : 'es';
+}
+
+// Storage key for a (category, language) pair: Spanish keeps the bare id ("3", "3.en", "3.pt")
+export function dictionaryKey(categoryId: string, language: Language = 'es'): string {
+    return language === 'es' ? categoryId : `${categoryId}.${language}`;
+}
+
+export function parseDictionaryKey(key: string): { categoryId: string; language: Language } {
+    const [categoryId, locale] = key.split('.');
+    return { categoryId, language: isLanguage(locale) ? locale : 'es' };
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { FuzzyTrie, boundedLevenshtein } from './trie';
+import { nextRandom } from '../rng';
+import { validateWord } from '../validator';
+
+// Deterministic synthetic dictionary (city-sized pack)
+function buildWords(count: number, seed: number): string[] {
+    const alphabet = 'abcdefghijklmnopqrstuvwxyz';
+    const words = new Set<string>();
+    let state = seed;
+    while (words.size < count) {
+        let value: number;
+        [value, state] = nextRandom(state);
+        const length = 5 + Math.floor(value * 7);
+        let word = '';
+        for (let i = 0; i < length; i++) {
+            [value, state] = nextRandom(state);
+            word += alphabet[Math.floor(value * alphabet.length)];
+        }
+        words.add(word);
+    }
+    return [...words];
+}
+
+// Reference implementation: what validator.ts used to do (full scan, full matrix per word)
+function naiveClosest(words: string[], query: string, maxDistance: number) {
+    let best: { word: string; distance: number } | null = null;
+    for (const word of words) {
+        if (Math.abs(word.length - query.length) > maxDistance) continue;
+        const distance = boundedLevenshtein(query, word);
+        if (distance <= maxDistance && (!best || distance < best.distance)) best = { word, distance };
+    }
+    return best;
+}
+
+describe('Fuzzy Trie index', () => {
+    it('should compute bounded edit distance with early cutoff', () => {
+        expect(boundedLevenshtein('perro', 'perru')).toBe(1);
+        expect(boundedLevenshtein('kitten', 'sitting')).toBe(3);
+        expect(boundedLevenshtein('kitten', 'sitting', 1)).toBe(2); // Capped at bound + 1
+        expect(boundedLevenshtein('a', 'abcdef', 2)).toBe(3);
+    });
+
+    it('should return the best match and its distance', () => {
+        const trie = new FuzzyTrie(['argentina', 'armenia', 'alemania', 'albania']);
+        expect(trie.findClosest('argentna', 2)).toEqual({ word: 'argentina', distance: 1 });
+        expect(trie.findClosest('albania', 2)).toEqual({ word: 'albania', distance: 0 });
+        expect(trie.findClosest('zzzzzz', 2)).toBeNull();
+    });
+
+    it('should agree with a full scan', () => {
+        const words = buildWords(2000, 7);
+        const trie = new FuzzyTrie(words);
+        const queries = buildWords(100, 99).concat(words.slice(0, 100).map(w => w.slice(0, -1) + 'x'));
+
+        for (const query of queries) {
+            expect(trie.findClosest(query, 2)?.distance ?? null).toBe(naiveClosest(words, query, 2)?.distance ?? null);
+        }
+    });
+
+    it('should expose the fuzzy match through validateWord', () => {
+        expect(validateWord('Argentna', 'País')).toEqual({ reason: 'FUZZY_MATCH', isValid: true, match: 'Argentina', distance: 1 });
+    });
+
+    it('should expand only a small part of the index per query', () => {
+        const words = buildWords(10000, 3);
+        const trie = new FuzzyTrie(words);
+        const queries = words.slice(0, 200).map(w => w.slice(1) + 'q'); // Typos of known words
+
+        let visited = 0;
+        for (const query of queries) {
+            expect(trie.findClosest(query, 2)).not.toBeNull();
+            visited += trie.lastVisitedNodes;
+        }
+
+        // Node count, not wall-clock time: stable on any machine
+        expect(visited / queries.length).toBeLessThan(trie.size / 5);
+    });
+});
@@ -0,0 +1,114 @@
+export interface FuzzyMatch {
+    word: string;
+    distance: number;
+}
+
+/**
+ * Levenshtein distance with early cutoff.
+ * Two rows instead of a full matrix; returns `maxDistance + 1` as soon as every
+ * cell of a row exceeds the bound (the final distance can only grow from there).
+ */
+export function boundedLevenshtein(a: string, b: string, maxDistance = Infinity): number {
+    if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+    if (a.length === 0) return b.length;
+    if (b.length === 0) return a.length;
+
+    let previous = new Array<number>(b.length + 1);
+    let current = new Array<number>(b.length + 1);
+    for (let j = 0; j <= b.length; j++) previous[j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+        current[0] = i;
+        let rowMin = current[0];
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+            current[j] = Math.min(
+                previous[j - 1] + cost, // substitution
+                current[j - 1] + 1,     // insertion
+                previous[j] + 1         // deletion
+            );
+            if (current[j] < rowMin) rowMin = current[j];
+        }
+
+        if (rowMin > maxDistance) return maxDistance + 1;
+        [previous, current] = [current, previous];
+    }
+
+    return previous[b.length];
+}
+
+interface TrieNode {
+    children: Map<string, TrieNode>;
+    word: string | null; // Set when a dictionary word ends here
+}
+
+/**
+ * Prefix tree with bounded edit-distance search.
+ * Each node extends one Levenshtein row of its parent, so shared prefixes are computed once,
+ * and a whole branch is skipped as soon as its row minimum exceeds the tolerance.
+ */
+export class FuzzyTrie {
+    private root: TrieNode = { children: new Map(), word: null };
+    private nodeCount = 1;
+    public lastVisitedNodes = 0; // Nodes expanded by the last search (tests/debug)
+
+    constructor(words: Iterable<string> = []) {
+        for (const word of words) this.add(word);
+    }
+
+    public get size(): number {
+        return this.nodeCount;
+    }
+
+    public add(word: string) {
+        let node = this.root;
+        for (const char of word) {
+            let child = node.children.get(char);
+            if (!child) {
+                child = { children: new Map(), word: null };
+                node.children.set(char, child);
+                this.nodeCount++;
+            }
+            node = child;
+        }
+        node.word = word;
+    }
+
+    // Closest word within `maxDistance` edits (ties: first in traversal order), or null
+    public findClosest(query: string, maxDistance: number): FuzzyMatch | null {
+        this.lastVisitedNodes = 0;
+        let best: FuzzyMatch | null = null;
+
+        const firstRow = Array.from({ length: query.length + 1 }, (_, i) => i);
+        if (this.root.word !== null && query.length <= maxDistance) {
+            best = { word: this.root.word, distance: query.length };
+        }
+
+        const visit = (node: TrieNode, char: string, previousRow: number[]) => {
+            this.lastVisitedNodes++;
+
+            const row = [previousRow[0] + 1];
+            let rowMin = row[0];
+            for (let j = 1; j <= query.length; j++) {
+                const cost = query[j - 1] === char ? 0 : 1;
+                row[j] = Math.min(previousRow[j - 1] + cost, row[j - 1] + 1, previousRow[j] + 1);
+                if (row[j] < rowMin) rowMin = row[j];
+            }
+
+            const tolerance = best ? best.distance - 1 : maxDistance; // Only strictly better matches count
+            const distance = row[query.length];
+            if (node.word !== null && distance <= tolerance) {
+                best = { word: node.word, distance };
+            }
+
+            // Early cutoff: every word below this node is at least `rowMin` edits away
+            if (rowMin <= (best ? best.distance - 1 : maxDistance)) {
+                for (const [nextChar, child] of node.children) visit(child, nextChar, row);
+            }
+        };
+
+        for (const [char, child] of this.root.children) visit(child, char, firstRow);
+        return best;
+    }
+}
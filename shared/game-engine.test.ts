@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { GameEngine } from './game-engine';
+import { getCategoryByName } from './categories';
 
 describe('GameEngine Core', () => {
     let engine: GameEngine;
@@ -144,6 +145,53 @@ describe('GameEngine Core', () => {
             // E (Invalid/Voted): 0
             expect(finalState.roundScores[pE]).toBe(0);
         });
+
+        it('should apply the Argentine preset (solo 20 / unique 10 / repeated 5)', () => {
+            engine.joinPlayer('player-A', 'A', 'av', 'conn-A');
+            engine.joinPlayer('player-B', 'B', 'av', 'conn-B');
+            engine.joinPlayer('player-C', 'C', 'av', 'conn-C');
+            engine.updateConfig('conn-A', { scoringPreset: 'ARGENTINO' });
+            engine.startGame('conn-A');
+
+            const state = engine.getState();
+            state.categories = ['Fruta', 'Color', 'País'];
+            state.currentLetter = null;
+
+            engine.submitAnswers('conn-A', { 'Fruta': 'Pera', 'Color': 'Rojo', 'País': 'Chile' });
+            engine.submitAnswers('conn-B', { 'Fruta': 'Pera', 'Color': 'Azul' });
+            engine.submitAnswers('conn-C', { 'Fruta': 'Pera' });
+            (engine as any).forceEndRound();
+            ['conn-A', 'conn-B', 'conn-C'].forEach(c => engine.confirmVotes(c));
+
+            // A: 5 (repeated) + 10 (unique) + 20 (solo)
+            expect(engine.getState().roundScores['player-A']).toBe(35);
+            expect(engine.getState().roundScores['player-B']).toBe(15);
+            expect(engine.getState().roundScores['player-C']).toBe(5);
+        });
+
+        it('should add the custom stop bonus only to a stopper who scored', () => {
+            engine.joinPlayer('player-A', 'A', 'av', 'conn-A');
+            engine.joinPlayer('player-B', 'B', 'av', 'conn-B');
+            engine.joinPlayer('player-C', 'C', 'av', 'conn-C');
+            engine.updateConfig('conn-A', {
+                scoringPreset: 'CUSTOM',
+                customScoring: { solo: 30, unique: 20, duplicate: 10, stopBonus: 15 }
+            });
+            engine.startGame('conn-A');
+
+            const state = engine.getState();
+            state.categories = ['Fruta', 'Color'];
+            state.currentLetter = null;
+
+            engine.submitAnswers('conn-B', { 'Fruta': 'Pera', 'Color': 'Azul' });
+            engine.submitAnswers('conn-C', { 'Fruta': 'Manzana' });
+            engine.stopRound('conn-B', { 'Fruta': 'Pera', 'Color': 'Azul' });
+            ['conn-A', 'conn-B', 'conn-C'].forEach(c => engine.confirmVotes(c));
+
+            // B: 20 (unique) + 30 (solo) + 15 (stop)
+            expect(engine.getState().roundScores['player-B']).toBe(65);
+            expect(engine.getState().roundScores['player-C']).toBe(20);
+        });
     });
 
     // C. Validaciones de Seguridad
@@ -157,5 +205,481 @@ describe('GameEngine Core', () => {
 
             expect(engine.getState().status).toBe('LOBBY');
         });
+
+        it('should let co-hosts configure and kick players, but not reset or touch the host', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.joinPlayer('co', 'Co', 'av2', 'conn-co');
+            engine.joinPlayer('guest', 'Guest', 'av3', 'conn-guest');
+
+            engine.setCoHost('conn-guest', 'co', true); // Only the host manages roles
+            expect(engine.getState().players[1].isCoHost).toBeUndefined();
+            engine.setCoHost(hostConn, 'co', true);
+
+            engine.updateConfig('conn-co', { totalRounds: 3 });
+            expect(engine.getState().config.totalRounds).toBe(3);
+
+            engine.kickPlayer('conn-co', hostId);
+            engine.restartGame('conn-co');
+            expect(engine.getState().players.map(p => p.id)).toEqual([hostId, 'co', 'guest']);
+
+            engine.kickPlayer('conn-co', 'guest');
+            expect(engine.getState().players.map(p => p.id)).toEqual([hostId, 'co']);
+        });
+
+        it('should keep banned users out (by userId and token) until unbanned', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest', false, 'v1.guest-token');
+            engine.joinPlayer('other', 'Other', 'av3', 'conn-other');
+
+            engine.kickPlayer(hostConn, 'other');
+            engine.kickPlayer(hostConn, 'guest', true);
+            expect(engine.takeKickedConnections()).toEqual([
+                { connectionId: 'conn-other', reason: 'KICKED' },
+                { connectionId: 'conn-guest', reason: 'BANNED' }
+            ]);
+            expect(engine.getState().bannedUsers).toMatchObject([{ id: 'guest', name: 'Guest' }]);
+
+            // Just removed: free to come back. Banned: not with the same id nor with a new one
+            engine.joinPlayer('other', 'Other', 'av3', 'conn-other-2');
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest-2', false, 'v1.guest-token');
+            engine.joinPlayer('guest-2', 'Guest', 'av2', 'conn-guest-3', false, 'v1.guest-token');
+            expect(engine.getState().players.map(p => p.id)).toEqual([hostId, 'other']);
+
+            engine.unbanPlayer('conn-other-2', 'guest'); // Not allowed to unban
+            expect(engine.isBanned('guest')).toBe(true);
+            engine.unbanPlayer(hostConn, 'guest');
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest-4', false, 'v1.guest-token');
+            expect(engine.getState().players.map(p => p.id)).toEqual([hostId, 'other', 'guest']);
+        });
+
+        it('should transfer the host seat and prefer co-hosts when the host leaves', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest');
+            engine.joinPlayer('co', 'Co', 'av3', 'conn-co');
+
+            engine.transferHost(hostConn, 'guest');
+            const [host, guest] = engine.getState().players;
+            expect(guest.isHost).toBe(true);
+            expect(host).toMatchObject({ isHost: false, isCoHost: true });
+
+            engine.playerDisconnected('conn-guest');
+            expect(engine.getState().players.find(p => p.isHost)?.id).toBe(hostId);
+        });
+    });
+
+    // D. Determinismo (Seed + Clock)
+    describe('Determinism', () => {
+        it('should deal the same letter and categories for the same seed', () => {
+            const play = (seed: number) => {
+                const seeded = new GameEngine(roomId, { seed });
+                seeded.joinPlayer(hostId, 'Host', 'av1', hostConn);
+                seeded.startGame(hostConn);
+                const { currentLetter, categories } = seeded.getState();
+                return { currentLetter, categories };
+            };
+
+            expect(play(1234)).toEqual(play(1234));
+            expect(new GameEngine(roomId, { seed: 1234 }).getState().seed).toBe(1234);
+        });
+
+        it('should reseed every new game so a revealed seed cannot predict the next one', () => {
+            const seeded = new GameEngine(roomId, { seed: 1234 });
+            seeded.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            seeded.startGame(hostConn);
+            expect(seeded.getState().seed).toBe(1234);
+
+            seeded.restartGame(hostConn);
+            seeded.startGame(hostConn);
+            const { seed, currentLetter, categories } = seeded.getState();
+            expect(seed).not.toBe(1234);
+
+            // The new seed still replays its own game
+            const replay = new GameEngine(roomId, { seed });
+            replay.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            replay.startGame(hostConn);
+            expect(replay.getState()).toMatchObject({ currentLetter, categories });
+        });
+
+        it('should move through timeouts by advancing a fake clock', () => {
+            let now = 1_000_000;
+            const clocked = new GameEngine(roomId, { seed: 42, clock: { now: () => now } });
+            clocked.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            clocked.joinPlayer('guest', 'Guest', 'av2', 'conn-guest');
+            clocked.startGame(hostConn);
+
+            expect(clocked.getState().timers.roundEndsAt).toBe(now + 60_000);
+            expect(clocked.checkTimeouts()).toBeNull();
+
+            now += 60_000;
+            expect(clocked.checkTimeouts()?.status).toBe('REVIEW');
+
+            now += 45_000;
+            expect(clocked.checkTimeouts()?.status).toBe('RESULTS');
+
+            now += 10_000;
+            expect(clocked.checkTimeouts()?.status).toBe('PLAYING');
+            expect(clocked.getState().roundsPlayed).toBe(1);
+        });
+    });
+
+    // E. Mazo de Letras
+    describe('Letter Deck', () => {
+        it('should not repeat letters within a game', () => {
+            const seeded = new GameEngine(roomId, { seed: 7 });
+            seeded.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            seeded.updateConfig(hostConn, { totalRounds: 20, letterPreset: 'CLASICO' });
+            seeded.startGame(hostConn);
+
+            const letters = [seeded.getState().currentLetter];
+            for (let i = 0; i < 19; i++) {
+                seeded.getState().status = 'RESULTS';
+                seeded.forceStartNextRound();
+                letters.push(seeded.getState().currentLetter);
+            }
+
+            expect(new Set(letters).size).toBe(20);
+            expect(letters).not.toContain('K');
+            expect(seeded.getState().letterDeck).toHaveLength(1); // 21 classic letters - 20 played
+        });
+
+        it('should honour host exclusions but never empty the deck', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+
+            engine.updateConfig(hostConn, { excludedLetters: ['A', 'B'] });
+            expect(engine.getState().letterDeck).not.toContain('A');
+            expect(engine.getState().letterDeck).toHaveLength(24);
+
+            engine.updateConfig(hostConn, { excludedLetters: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('') });
+            expect(engine.getState().config.excludedLetters).toEqual([]);
+            expect(engine.getState().letterDeck).toHaveLength(26);
+        });
+    });
+
+    // F. Espectadores
+    describe('Spectators', () => {
+        beforeEach(() => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest');
+        });
+
+        it('should keep explicit spectators out of the players list', () => {
+            engine.joinPlayer('viewer', 'Viewer', 'av3', 'conn-viewer', true);
+
+            expect(engine.getState().players).toHaveLength(2);
+            expect(engine.getState().spectators.map(s => s.id)).toEqual(['viewer']);
+        });
+
+        it('should turn late joiners into spectators who cannot vote or block consensus', () => {
+            engine.startGame(hostConn);
+            engine.joinPlayer('late', 'Late', 'av3', 'conn-late');
+            expect(engine.getState().spectators.map(s => s.id)).toEqual(['late']);
+
+            (engine as any).forceEndRound();
+            engine.toggleVote('conn-late', hostId, engine.getState().categories[0]);
+            expect(engine.getState().votes[hostId]).toBeUndefined();
+
+            engine.confirmVotes(hostConn);
+            engine.confirmVotes('conn-guest');
+            expect(engine.getState().status).toBe('RESULTS');
+        });
+
+        it('should promote opted-in spectators at the next round', () => {
+            engine.startGame(hostConn);
+            engine.joinPlayer('viewer', 'Viewer', 'av3', 'conn-viewer', true);
+            engine.setSpectatorWantsToPlay('conn-viewer', true);
+            expect(engine.getState().players).toHaveLength(2);
+
+            engine.getState().status = 'RESULTS';
+            engine.forceStartNextRound();
+
+            expect(engine.getState().players.map(p => p.id)).toContain('viewer');
+            expect(engine.getState().spectators).toHaveLength(0);
+            expect(engine.getState().answers['viewer']).toEqual({});
+        });
+
+        it('should queue late joiners with the minimum score as catch-up', () => {
+            engine.updateConfig(hostConn, { catchUpScore: 'MINIMUM' });
+            engine.startGame(hostConn);
+            engine.getState().players[0].score = 150;
+            engine.getState().players[1].score = 50;
+
+            engine.joinPlayer('late', 'Late', 'av3', 'conn-late');
+            expect(engine.getState().spectators[0].wantsToPlay).toBe(true);
+
+            engine.getState().status = 'RESULTS';
+            engine.forceStartNextRound();
+
+            const late = engine.getState().players.find(p => p.id === 'late');
+            expect(late?.score).toBe(50);
+            expect(engine.getState().spectators).toHaveLength(0);
+        });
+
+        it('should not queue explicit spectators', () => {
+            engine.startGame(hostConn);
+            engine.joinPlayer('viewer', 'Viewer', 'av3', 'conn-viewer', true);
+
+            engine.getState().status = 'RESULTS';
+            engine.forceStartNextRound();
+
+            expect(engine.getState().players.map(p => p.id)).not.toContain('viewer');
+        });
+
+        it('should not end the game when a spectator leaves', () => {
+            engine.joinPlayer('viewer', 'Viewer', 'av3', 'conn-viewer', true);
+            engine.startGame(hostConn);
+
+            engine.playerDisconnected('conn-viewer');
+
+            expect(engine.getState().status).toBe('PLAYING');
+            expect(engine.getState().spectators[0].isConnected).toBe(false);
+        });
+    });
+
+    // G. 1vs1 Automatic Judge
+    describe('1vs1 Automatic Judge', () => {
+        it('should auto-reject unknown words only in categories with a dictionary', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest');
+            engine.startGame(hostConn);
+
+            const state = engine.getState();
+            state.categories = ['País', 'Película'];
+            state.currentLetter = null;
+
+            engine.submitAnswers('conn-guest', { 'País': 'Xyzzy', 'Película': 'Xyzzy' });
+            engine.stopRound(hostConn, { 'País': 'Perú', 'Película': 'Matrix' });
+
+            expect(state.votes['guest']?.['País']).toEqual([hostId]);
+            expect(state.votes['guest']?.['Película']).toBeUndefined();
+            expect(state.votes[hostId]?.['Película']).toBeUndefined();
+        });
+    });
+
+    // H. Answer Verdicts
+    describe('Answer Verdicts', () => {
+        it('should store a verdict per answer once the round is reviewed', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest');
+            engine.joinPlayer('third', 'Third', 'av3', 'conn-third');
+            engine.startGame(hostConn);
+
+            const state = engine.getState();
+            state.categories = ['País', 'Película'];
+            state.currentLetter = 'P';
+
+            engine.submitAnswers('conn-guest', { 'País': 'Peru', 'Película': 'Psicosis' });
+            expect(state.answerVerdicts).toEqual({}); // Hidden while PLAYING
+
+            engine.stopRound(hostConn, { 'País': 'Panamaa', 'Película': 'Pulp Fiction' });
+            expect(state.answerVerdicts[hostId]['País']).toEqual({ reason: 'FUZZY_MATCH', isValid: true, match: 'Panamá', distance: 1 });
+            expect(state.answerVerdicts['guest']['País']).toMatchObject({ reason: 'EXACT', match: 'Perú' });
+            expect(state.answerVerdicts['guest']['Película'].reason).toBe('UNKNOWN_CATEGORY');
+            expect(state.answerVerdicts['third']['País'].reason).toBe('EMPTY');
+
+            // Late submission during REVIEW: the wiped word is still explained
+            engine.submitAnswers('conn-third', { 'País': 'Chile' });
+            expect(state.answers['third']['País']).toBe('');
+            expect(state.answerVerdicts['third']['País'].reason).toBe('WRONG_LETTER');
+
+            engine.forceStartNextRound();
+            expect(engine.getState().answerVerdicts).toEqual({});
+        });
+
+        it('should explain letter breaches the same way for every player', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest');
+            engine.joinPlayer('third', 'Third', 'av3', 'conn-third');
+            engine.startGame(hostConn);
+
+            const state = engine.getState();
+            state.categories = ['País'];
+            state.currentLetter = 'P';
+
+            engine.submitAnswers('conn-guest', { 'País': 'Chile' });
+            expect(state.answers['guest']['País']).toBe('');
+
+            engine.stopRound(hostConn, { 'País': 'Colombia' });
+            expect(state.answerVerdicts[hostId]['País'].reason).toBe('WRONG_LETTER');
+            expect(state.answerVerdicts['guest']['País'].reason).toBe('WRONG_LETTER');
+            expect(state.answerVerdicts['third']['País'].reason).toBe('EMPTY');
+        });
+    });
+
+    // I. Custom Categories
+    describe('Custom Categories', () => {
+        const office = { name: 'Cosas de la oficina', tags: ['oficina'], words: ['Abrochadora', 'abrochadora', 'Café'] };
+
+        it('should let only the host add categories in the lobby', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest');
+
+            engine.addCustomCategory('conn-guest', office);
+            expect(engine.getState().customCategories).toHaveLength(0);
+
+            engine.addCustomCategory(hostConn, office);
+            const state = engine.getState();
+            expect(state.customCategories).toEqual([
+                { id: 'custom-cosas-de-la-oficina', name: 'Cosas de la oficina', tags: ['OFICINA'], words: ['Abrochadora', 'Café'] }
+            ]);
+            expect(state.config.selectedCategories).toContain('Cosas de la oficina');
+
+            // Same name again updates it instead of duplicating
+            engine.addCustomCategory(hostConn, { ...office, words: ['Mate'] });
+            expect(state.customCategories).toHaveLength(1);
+            expect(state.customCategories[0].words).toEqual(['Mate']);
+
+            // Built-in names cannot be shadowed
+            engine.addCustomCategory(hostConn, { name: 'pais', tags: [], words: ['Narnia'] });
+            expect(state.customCategories).toHaveLength(1);
+        });
+
+        it('should cap the number of categories per room', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            for (let i = 0; i < 12; i++) {
+                engine.addCustomCategory(hostConn, { name: `Extra ${i}`, tags: [], words: [] });
+            }
+            expect(engine.getState().customCategories).toHaveLength(10);
+        });
+
+        it('should judge answers with the room word list', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest');
+            engine.addCustomCategory(hostConn, office);
+            engine.startGame(hostConn);
+
+            const state = engine.getState();
+            state.categories = ['Cosas de la oficina'];
+            state.currentLetter = 'A';
+
+            engine.submitAnswers('conn-guest', { 'Cosas de la oficina': 'Archivo' });
+            engine.stopRound(hostConn, { 'Cosas de la oficina': 'Abrochadora' });
+
+            expect(state.answerVerdicts[hostId]['Cosas de la oficina'].reason).toBe('EXACT');
+            expect(state.answerVerdicts['guest']['Cosas de la oficina'].reason).toBe('NOT_IN_DICTIONARY');
+            expect(state.votes['guest']?.['Cosas de la oficina']).toEqual([hostId]); // 1vs1 automatic judge
+        });
+    });
+
+    // J. Moderation
+    describe('Moderation', () => {
+        it('should mask names, answers and custom categories by default', () => {
+            engine.joinPlayer(hostId, 'El Pelotudo', 'av1', hostConn);
+            const state = engine.getState();
+            expect(state.players[0].name).toBe('El P*******');
+
+            engine.addCustomCategory(hostConn, { name: 'Cosas', tags: ['mierda', 'oficina'], words: ['Mate', 'Verga'] });
+            expect(state.customCategories[0]).toMatchObject({ tags: ['OFICINA'], words: ['Mate'] });
+
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest');
+            engine.startGame(hostConn);
+            state.categories = ['Cosa'];
+            state.currentLetter = 'M';
+
+            engine.submitAnswers('conn-guest', { 'Cosa': 'Mierdas' });
+            expect(state.answers['guest']['Cosa']).toBe('M******');
+        });
+
+        it('should clear answers and rename players with the REJECT policy', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.updateConfig(hostConn, { moderationPolicy: 'REJECT', moderationSeverity: 'LOW' });
+            engine.joinPlayer('guest', 'Idiota', 'av2', 'conn-guest');
+
+            const state = engine.getState();
+            expect(state.players[1].name).toBe('Jugador');
+
+            // The fallback follows the room language
+            engine.updateConfig(hostConn, { language: 'en' });
+            engine.joinPlayer('guest', 'Idiot', 'av2', 'conn-guest');
+            expect(state.players[1].name).toBe('Player');
+            engine.updateConfig(hostConn, { language: 'es' });
+
+            engine.startGame(hostConn);
+            state.categories = ['Cosa'];
+            state.currentLetter = 'I';
+            engine.submitAnswers('conn-guest', { 'Cosa': 'Imbécil' });
+            expect(state.answers['guest']['Cosa']).toBe('');
+        });
+
+        it('should only allow existing categories in the manual selection', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.updateConfig(hostConn, { selectedCategories: ['País', 'Cualquier cosa'] });
+            expect(engine.getState().config.selectedCategories).toEqual(['País']);
+        });
+    });
+
+    describe('Game Language', () => {
+        it('should localize the selected categories and drop Ñ outside Spanish', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.updateConfig(hostConn, { mode: 'MANUAL', selectedCategories: ['País', 'Animal'], letterPreset: 'CON_ENE' });
+            expect(engine.getState().letterDeck).toContain('Ñ');
+
+            engine.updateConfig(hostConn, { language: 'en' });
+            const state = engine.getState();
+            expect(state.config.selectedCategories).toEqual(['Country', 'Animal']);
+            expect(state.letterDeck).not.toContain('Ñ');
+
+            engine.updateConfig(hostConn, { language: 'pt' });
+            expect(state.config.selectedCategories).toEqual(['País', 'Animal']);
+        });
+
+        it('should judge answers with the packs of the room language', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            engine.joinPlayer('guest', 'Guest', 'av2', 'conn-guest');
+            engine.updateConfig(hostConn, { language: 'en' });
+            engine.startGame(hostConn);
+
+            const state = engine.getState();
+            state.categories = ['Country'];
+            state.currentLetter = 'G';
+            engine.submitAnswers('conn-guest', { 'Country': 'The Germanys' });
+            engine.stopRound(hostConn, { 'Country': 'Gremany' });
+
+            expect(state.answerVerdicts['guest']['Country']).toMatchObject({ reason: 'EXACT', match: 'Germany' });
+            expect(state.answerVerdicts[hostId]['Country']).toMatchObject({ reason: 'FUZZY_MATCH', match: 'Germany' });
+        });
+    });
+
+    describe('Random Categories', () => {
+        it('should not repeat categories from the previous rounds and honour the tag filter', () => {
+            const seeded = new GameEngine(roomId, { seed: 11 });
+            seeded.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            seeded.updateConfig(hostConn, { categoriesCount: 4, categoryTags: ['CLASICO', 'GEO', 'COMIDA'], avoidRecentRounds: 1 });
+            seeded.startGame(hostConn);
+
+            const first = seeded.getState().categories;
+            seeded.getState().status = 'RESULTS';
+            seeded.forceStartNextRound();
+            const second = seeded.getState().categories;
+
+            expect(second.some(name => first.includes(name))).toBe(false);
+            expect(seeded.getState().categoryHistory).toHaveLength(1);
+            for (const name of [...first, ...second]) {
+                expect(getCategoryByName(name)?.tags.some(tag => ['CLASICO', 'GEO', 'COMIDA'].includes(tag)), name).toBe(true);
+            }
+        });
+    });
+
+    describe('Letter Viability', () => {
+        it('should put back letters that leave the manual board without answers', () => {
+            engine.joinPlayer(hostId, 'Host', 'av1', hostConn);
+            const excludedLetters = 'BCDEFGHIJKLMNOPQRSTUVXYZ'.split(''); // Deck: A and W
+            engine.updateConfig(hostConn, { mode: 'MANUAL', selectedCategories: ['País', 'Color', 'Animal'], excludedLetters });
+            engine.startGame(hostConn);
+
+            expect(engine.getState().currentLetter).toBe('A');
+            expect(engine.getState().letterDeck).toEqual(['W']);
+        });
+
+        it('should deal blindly when the host turns the check off', () => {
+            const dealt = new Set<string | null>();
+            for (let seed = 1; seed <= 10; seed++) {
+                const seeded = new GameEngine(roomId, { seed });
+                seeded.joinPlayer(hostId, 'Host', 'av1', hostConn);
+                seeded.updateConfig(hostConn, { mode: 'MANUAL', selectedCategories: ['País', 'Color', 'Animal'], excludedLetters: 'BCDEFGHIJKLMNOPQRSTUVXYZ'.split(''), viabilityCheck: false });
+                seeded.startGame(hostConn);
+                dealt.add(seeded.getState().currentLetter);
+            }
+            expect(dealt).toEqual(new Set(['A', 'W']));
+        });
     });
 });
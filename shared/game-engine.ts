@@ -1,115 +1,70 @@
-import { RoomState, Player, GameConfig } from './types.js';
-import { RoundAnswersSchema } from './schemas.js';
-import { validateWord } from './validator.js';
-
-export interface CategoryItem {
-    id: string;
-    name: string;
-    tags: string[];
+import { RoomState, Player, Spectator, GameConfig, WordVerdict, CustomCategoryInput, Language, KickReason } from './types.js';
+import { RoundAnswersSchema, CUSTOM_CATEGORY_LIMITS, PLAYER_LIMITS } from './schemas.js';
+import { validateWord, isAutoRejected } from './validator.js';
+import { Clock, systemClock } from './clock.js';
+import { nextRandom, randomSeed } from './rng.js';
+import { buildLetterDeck, drawLetter } from './letters.js';
+import { getScoringRule } from './scoring.js';
+import { judgeAnswer } from './answer-judge.js';
+import { MASTER_CATEGORIES, getCategoryByName, getCategoryName } from './categories.js';
+import { LANGUAGES } from './languages.js';
+import { getCategoryPool, toCustomCategoryId, dedupeWords } from './custom-categories.js';
+import { pickRoundCategories } from './category-picker.js';
+import { isViable } from './viability.js';
+import { tokensMatch } from './session-token.js';
+import { ROOM_STATE_VERSION, restoreRoomState } from './room-persistence.js';
+import { Permission, getRole, hasPermission, outranks } from './permissions.js';
+import { collectJudgements, LearningJudgement } from './dictionaries/learning.js';
+import { ProfanityFilter } from './moderation/filter.js';
+import { startsWithLetter } from './normalize.js';
+
+export interface GameEngineOptions {
+    seed?: number;  // Fixed seed for reproducible letters/categories (random if omitted)
+    clock?: Clock;  // Time source for timers (system clock if omitted)
 }
 
-export const MASTER_CATEGORIES: CategoryItem[] = [
-    // CLASICOS
-    { id: '1', name: 'Nombre', tags: ['CLASICO', 'FACIL'] },
-    { id: '2', name: 'Apellido', tags: ['CLASICO'] },
-    { id: '3', name: 'País', tags: ['CLASICO', 'GEO'] },
-    { id: '4', name: 'Ciudad', tags: ['CLASICO', 'GEO'] },
-    { id: '5', name: 'Animal', tags: ['CLASICO', 'NATURALEZA'] },
-    { id: '6', name: 'Color', tags: ['CLASICO', 'FACIL'] },
-    { id: '7', name: 'Fruta/Verdura', tags: ['CLASICO', 'NATURALEZA'] },
-    { id: '8', name: 'Cosa', tags: ['CLASICO', 'FACIL'] },
-    { id: '9', name: 'Profesión', tags: ['CLASICO', 'SOCIEDAD'] },
-
-    // ENTERTAINMENT
-    { id: '10', name: 'Película', tags: ['CINE', 'FUN'] },
-    { id: '11', name: 'Serie de TV', tags: ['CINE', 'FUN'] },
-    { id: '12', name: 'Actor/Actriz', tags: ['CINE', 'FAMOSO'] },
-    { id: '13', name: 'Villano', tags: ['CINE', 'FUN'] },
-    { id: '14', name: 'Superhéroe', tags: ['CINE', 'FUN'] },
-    { id: '15', name: 'Personaje Ficticio', tags: ['CINE', 'FUN'] },
-    { id: '16', name: 'Videojuego', tags: ['GAMING', 'FUN'] },
-    { id: '17', name: 'Youtuber/Streamer', tags: ['INTERNET', 'MODERNO'] },
-
-    // MUSIC
-    { id: '20', name: 'Canción', tags: ['MUSICA', 'ARTE'] },
-    { id: '21', name: 'Cantante/Banda', tags: ['MUSICA', 'FAMOSO'] },
-    { id: '22', name: 'Instrumento Musical', tags: ['MUSICA', 'OBJETO'] },
-    { id: '23', name: 'Título de Canción de Reggaeton', tags: ['MUSICA', 'FUN', 'HARD'] },
-
-    // BRANDS & TECH
-    { id: '30', name: 'Marca', tags: ['MARCAS', 'CONSUMO'] },
-    { id: '31', name: 'Marca de Auto', tags: ['MARCAS', 'VEHICULO'] },
-    { id: '32', name: 'Marca de Ropa', tags: ['MARCAS', 'MODA'] },
-    { id: '33', name: 'Marca de Tecnología', tags: ['MARCAS', 'TECH'] },
-    { id: '34', name: 'App Móvil', tags: ['TECH', 'MODERNO'] },
-    { id: '35', name: 'Sitio Web', tags: ['TECH', 'INTERNET'] },
-
-    // FOOD
-    { id: '40', name: 'Comida', tags: ['COMIDA', 'FACIL'] },
-    { id: '41', name: 'Bebida', tags: ['COMIDA'] },
-    { id: '42', name: 'Postre', tags: ['COMIDA', 'DULCE'] },
-    { id: '43', name: 'Sabor de Helado', tags: ['COMIDA', 'DULCE'] },
-    { id: '44', name: 'Ingrediente de Pizza', tags: ['COMIDA'] },
-    { id: '45', name: 'Plato Típico', tags: ['COMIDA', 'CULTURA'] },
-
-    // GEO & CULTURE
-    { id: '50', name: 'Capital', tags: ['GEO', 'HARD'] },
-    { id: '51', name: 'Río/Lago', tags: ['GEO', 'NATURALEZA'] },
-    { id: '52', name: 'Idioma', tags: ['CULTURA'] },
-    { id: '53', name: 'Moneda', tags: ['CULTURA', 'ECONOMIA'] },
-    { id: '54', name: 'Lugar Turístico', tags: ['GEO', 'VIAJES'] },
-
-    // RANDOM & FUN
-    { id: '60', name: 'Insulto (suave)', tags: ['FUN', 'SOCIAL'] },
-    { id: '61', name: 'Excusa para llegar tarde', tags: ['FUN', 'SITUACIONAL'] },
-    { id: '62', name: 'Motivo de divorcio', tags: ['FUN', 'SITUACIONAL'] },
-    { id: '63', name: 'Cosa de millonarios', tags: ['FUN', 'SOCIEDAD'] },
-    { id: '64', name: 'Cosa que se pierde', tags: ['FUN', 'SITUACIONAL'] },
-    { id: '65', name: 'Cosa que huele mal', tags: ['FUN', 'SENSORIAL'] },
-    { id: '66', name: 'Miedo/Fobia', tags: ['PSICOLOGIA'] },
-    { id: '67', name: 'Pecado Capital', tags: ['CULTURA', 'HARD'] },
-
-    // SPORTS
-    { id: '70', name: 'Deporte', tags: ['DEPORTE'] },
-    { id: '71', name: 'Deportista', tags: ['DEPORTE', 'FAMOSO'] },
-    { id: '72', name: 'Equipo de Fútbol', tags: ['DEPORTE'] },
-
-    // HOUSE & OBJECTS
-    { id: '80', name: 'Parte de la Casa', tags: ['HOGAR'] },
-    { id: '81', name: 'Electrodoméstico', tags: ['HOGAR', 'TECH'] },
-    { id: '82', name: 'Mueble', tags: ['HOGAR'] },
-    { id: '83', name: 'Objeto de Cocina', tags: ['HOGAR', 'COCINA'] },
-    { id: '84', name: 'Herramienta', tags: ['HOGAR', 'OBJETO'] },
-    { id: '85', name: 'Ropa/Accesorio', tags: ['MODA'] },
-
-    // NATURE & ANIMALS
-    { id: '90', name: 'Raza de Perro', tags: ['NATURALEZA', 'ANIMALES'] },
-    { id: '91', name: 'Insecto', tags: ['NATURALEZA', 'ANIMALES'] },
-    { id: '92', name: 'Animal Marino', tags: ['NATURALEZA', 'ANIMALES'] },
-    { id: '93', name: 'Flor', tags: ['NATURALEZA'] },
-
-    // SITUATIONAL
-    { id: '100', name: 'Lo encuentras en la playa', tags: ['SITUACIONAL', 'VERANO'] },
-    { id: '101', name: 'Se compra en farmacia', tags: ['SITUACIONAL', 'COMPRAS'] },
-    { id: '102', name: 'Se lleva puesto', tags: ['SITUACIONAL'] },
-    { id: '103', name: 'Es redondo', tags: ['SITUACIONAL', 'FORMA'] },
-    { id: '104', name: 'Es rojo', tags: ['SITUACIONAL', 'COLOR'] }
-];
+// Connection dropped by a kick: the transport tells it why and closes it
+export interface KickedConnection {
+    connectionId: string;
+    reason: KickReason;
+}
+
+// Cut to `max` UTF-16 units (what the schemas count) without splitting a character
+function clampText(text: string, max: number): string {
+    let result = '';
+    for (const char of text) {
+        if (result.length + char.length > max) break;
+        result += char;
+    }
+    return result;
+}
 
 export class GameEngine {
     private state: RoomState;
 
     private connections: Map<string, string>; // ConnectionId -> UserId
+    private clock: Clock;
+    private learningJudgements: LearningJudgement[] = []; // Peer-vote outcomes not yet handed to the learning store
+    private kickedConnections: KickedConnection[] = []; // Not yet closed by the transport
+    private submittedAnswers: Record<string, Record<string, string>> = {}; // Raw words of the round (state keeps the sanitized ones)
+
+    constructor(roomId: string, options: GameEngineOptions = {}) {
+        this.clock = options.clock ?? systemClock;
+        const seed = (options.seed ?? randomSeed()) >>> 0;
 
-    constructor(roomId: string) {
         this.state = {
             status: 'LOBBY',
             players: [],
+            spectators: [],
             roomId: roomId,
             currentLetter: null,
+            letterDeck: [],
             categories: ['Nombre', 'Color', 'Fruta', 'País', 'Cosa'], // Default categories
+            categoryHistory: [],
+            customCategories: [],
             answers: {},
             answerStatuses: {},
+            answerVerdicts: {},
             roundsPlayed: 0,
             // Voting System Initial State
             votes: {},
@@ -117,40 +72,167 @@ export class GameEngine {
             roundScores: {},
             // Time Controls
             config: {
+                language: 'es',
                 roundDuration: 60, // 60 seconds default
                 votingDuration: 45, // 45 seconds default
                 categoriesCount: 5,   // 5 categories default
                 totalRounds: 5,       // 5 rounds default
                 mode: 'RANDOM',
-                selectedCategories: []
+                selectedCategories: [],
+                categoryTags: [],
+                maxPerTag: 2,
+                avoidRecentRounds: 2,
+                balanceDifficulty: true,
+                viabilityCheck: true,
+                letterPreset: 'COMPLETO',
+                excludedLetters: [],
+                weightedLetters: false,
+                scoringPreset: 'CLASICO',
+                catchUpScore: 'ZERO',
+                moderationPolicy: 'MASK',
+                moderationSeverity: 'MEDIUM'
             },
             timers: {
                 roundEndsAt: null,
                 votingEndsAt: null,
                 resultsEndsAt: null
             },
-            stoppedBy: null
+            stoppedBy: null,
+            seed,
+            rngState: seed
         };
+        this.state.letterDeck = buildLetterDeck(this.state.config);
         this.connections = new Map();
     }
 
+    // Next value of the room PRNG. State is kept in RoomState so hydrated rooms continue the sequence.
+    private random(): number {
+        const current = this.state.rngState ?? this.state.seed ?? randomSeed();
+        const [value, nextState] = nextRandom(current);
+        this.state.rngState = nextState;
+        return value;
+    }
+
+    private reseed() {
+        const seed = randomSeed() >>> 0;
+        this.state.seed = seed;
+        this.state.rngState = seed;
+    }
+
     public getState(): RoomState {
         return this.state;
     }
 
-    public hydrate(newState: RoomState): void {
-        this.state = newState;
-        console.log("[ENGINE] State hydrated from storage");
+    // Draws the round letter from the game deck (refills it if a long game used every letter)
+    private drawNextLetter(): string {
+        if (this.state.letterDeck.length === 0) {
+            this.state.letterDeck = buildLetterDeck(this.state.config);
+        }
+        const { letter, deck } = drawLetter(this.state.letterDeck, () => this.random(), this.state.config.weightedLetters, this.state.config.language);
+        this.state.letterDeck = deck;
+        return letter;
     }
 
-    public updateConfig(connectionId: string, newConfig: Partial<GameConfig>): RoomState {
-        const userId = this.connections.get(connectionId);
-        if (!userId) return this.state;
+    private usesManualCategories(): boolean {
+        return this.state.config.mode === 'MANUAL' && this.state.config.selectedCategories.length >= 3;
+    }
+
+    private isViableCategory(category: string, letter: string): boolean {
+        const { config, customCategories } = this.state;
+        return !config.viabilityCheck || isViable(category, letter, { customCategories, language: config.language });
+    }
+
+    /**
+     * Round letter. With the viability check on, letters that leave too few playable categories
+     * (all of the manual board, or `categoriesCount` of the random pool) go back to the deck and
+     * another one is drawn; if none qualifies, the best letter seen is dealt anyway.
+     */
+    private drawRoundLetter(): string {
+        if (!this.state.config.viabilityCheck) return this.drawNextLetter();
+
+        const names = this.usesManualCategories()
+            ? this.state.config.selectedCategories
+            : getCategoryPool(this.state.customCategories, this.state.config.language).map(c => c.name);
+        const needed = this.usesManualCategories() ? names.length : Math.min(this.state.config.categoriesCount, names.length);
+
+        const rejected: { letter: string; playable: number }[] = [];
+        let chosen: string | null = null;
+        while (chosen === null) {
+            const letter = this.drawNextLetter();
+            const playable = names.filter(name => this.isViableCategory(name, letter)).length;
+            if (playable >= needed) {
+                chosen = letter;
+            } else if (this.state.letterDeck.length === 0) {
+                // Deck exhausted: deal the best candidate
+                rejected.push({ letter, playable });
+                const best = rejected.reduce((a, b) => (b.playable > a.playable ? b : a));
+                rejected.splice(rejected.indexOf(best), 1);
+                chosen = best.letter;
+            } else {
+                rejected.push({ letter, playable });
+            }
+        }
+
+        this.state.letterDeck.push(...rejected.map(r => r.letter));
+        if (rejected.length > 0) {
+            console.log(`[VIABILITY] Skipped letters ${rejected.map(r => r.letter).join(', ')} -> ${chosen}`);
+        }
+        return chosen;
+    }
+
+    // RANDOM mode: balanced pick from the room pool, remembering ids to avoid repeats next rounds
+    private pickRandomCategories(): string[] {
+        const { config } = this.state;
+        const letter = this.state.currentLetter;
+        const picked = pickRoundCategories(getCategoryPool(this.state.customCategories, config.language), config.categoriesCount, {
+            random: () => this.random(),
+            tags: config.categoryTags,
+            maxPerTag: config.maxPerTag,
+            recentIds: this.state.categoryHistory.flat(),
+            balanceDifficulty: config.balanceDifficulty,
+            isViable: item => !letter || this.isViableCategory(item.name, letter)
+        });
+
+        if (config.avoidRecentRounds > 0) {
+            this.state.categoryHistory = [...this.state.categoryHistory, picked.map(c => c.id)].slice(-config.avoidRecentRounds);
+        }
+        return picked.map(c => c.name);
+    }
 
+    public getUserId(connectionId: string): string | undefined {
+        return this.connections.get(connectionId);
+    }
+
+    // Single guard for privileged actions: the caller must be a player whose role grants `permission`
+    private authorize(connectionId: string, permission: Permission): Player | null {
+        const userId = this.connections.get(connectionId);
         const player = this.state.players.find(p => p.id === userId);
+        if (!player || !hasPermission(getRole(this.state, userId), permission)) {
+            console.warn(`[SECURITY] ${permission} denied. Requestor ${userId ?? connectionId} lacks the permission.`);
+            return null;
+        }
+        return player;
+    }
 
-        // Only host can update config, and only in LOBBY
-        if (player && player.isHost && this.state.status === 'LOBBY') {
+    // Restores a stored room (any schema version). Unusable records are ignored and the fresh room is kept.
+    public hydrate(stored: unknown): boolean {
+        const result = restoreRoomState(stored, this.state);
+        if (!result.success) {
+            console.error(`[ENGINE] Ignoring stored state for ${this.state.roomId}: ${result.error}`);
+            return false;
+        }
+        if (result.migratedFrom !== null) {
+            console.log(`[ENGINE] Migrated stored state from v${result.migratedFrom} to v${ROOM_STATE_VERSION}`);
+        }
+        this.state = result.state;
+        console.log("[ENGINE] State hydrated from storage");
+        return true;
+    }
+
+    public updateConfig(connectionId: string, newConfig: Partial<GameConfig>): RoomState {
+        // Only host/co-hosts can update config, and only in LOBBY
+        if (this.state.status === 'LOBBY' && this.authorize(connectionId, 'CONFIG')) {
+            const previousLanguage = this.state.config.language;
             this.state.config = { ...this.state.config, ...newConfig };
             // Update initial preview of categories immediately if count changes? 
             // Better to just wait for start game to pick randoms. 
@@ -160,6 +242,22 @@ export class GameEngine {
             if (this.state.config.categoriesCount < 1) this.state.config.categoriesCount = 1;
             if (this.state.config.categoriesCount > 10) this.state.config.categoriesCount = 10;
 
+            // Language switch: built-in categories follow the room language (custom ones keep the host's name)
+            if (this.state.config.language !== previousLanguage) {
+                this.state.config.selectedCategories = this.state.config.selectedCategories.map(name => this.localizeCategory(name));
+                this.state.categories = this.state.categories.map(name => this.localizeCategory(name));
+            }
+
+            // Manual selection only picks existing categories (free text would bypass moderation)
+            const pool = new Set(getCategoryPool(this.state.customCategories, this.state.config.language).map(c => c.name));
+            this.state.config.selectedCategories = this.state.config.selectedCategories.filter(name => pool.has(name));
+
+            // Letter Deck: never allow excluding every letter, keep the lobby preview in sync
+            if (buildLetterDeck(this.state.config).length === 0) {
+                this.state.config.excludedLetters = [];
+            }
+            this.state.letterDeck = buildLetterDeck(this.state.config);
+
             // Validate Manual Config
             if (this.state.config.mode === 'MANUAL') {
                 // Ensure selectedCategories respects the count limit logic or overrides it?
@@ -171,18 +269,139 @@ export class GameEngine {
         return this.state;
     }
 
-    public joinPlayer(userId: string, name: string, avatar: string, connectionId: string): RoomState {
+    private localizeCategory(name: string): string {
+        const item = getCategoryByName(name);
+        return item ? getCategoryName(item, this.state.config.language) : name;
+    }
+
+    // Host-defined category (upsert by name). Only in LOBBY; the word list applies to this room only
+    public addCustomCategory(connectionId: string, input: CustomCategoryInput): RoomState {
+        if (this.state.status !== 'LOBBY' || !this.authorize(connectionId, 'CONFIG')) return this.state;
+
+        const name = this.moderateText(input.name.trim());
+        if (name.rejected) return this.state;
+
+        const id = toCustomCategoryId(name.text);
+        const languages = Object.keys(LANGUAGES) as Language[];
+        if (MASTER_CATEGORIES.some(c => languages.some(lang => toCustomCategoryId(getCategoryName(c, lang)) === id))) {
+            console.warn(`[CUSTOM] '${name.text}' already exists as a built-in category.`);
+            return this.state;
+        }
+
+        // Flagged tags/words are dropped whatever the policy (a masked word can never be matched)
+        const isClean = (text: string) => this.moderateText(text).text === text;
+        const category = {
+            id,
+            name: name.text,
+            tags: [...new Set(input.tags.map(t => t.trim().toUpperCase()))].filter(isClean),
+            words: dedupeWords(input.words).filter(isClean)
+        };
+
+        const existingIndex = this.state.customCategories.findIndex(c => c.id === id);
+        if (existingIndex !== -1) {
+            // Renamed spelling ("oficina" -> "Oficina"): keep the selection pointing at it
+            const previousName = this.state.customCategories[existingIndex].name;
+            this.state.customCategories[existingIndex] = category;
+            this.state.config.selectedCategories = this.state.config.selectedCategories
+                .map(selected => selected === previousName ? category.name : selected);
+        } else {
+            if (this.state.customCategories.length >= CUSTOM_CATEGORY_LIMITS.maxCategories) {
+                console.warn(`[CUSTOM] Room ${this.state.roomId} reached the custom category limit.`);
+                return this.state;
+            }
+            this.state.customCategories.push(category);
+            // The host wants to play it: pre-select it for manual mode
+            if (!this.state.config.selectedCategories.includes(category.name)) {
+                this.state.config.selectedCategories = [...this.state.config.selectedCategories, category.name];
+            }
+        }
+
+        console.log(`📝 [CUSTOM] ${category.name} (${category.words.length} words) added to ${this.state.roomId}`);
+        return this.state;
+    }
+
+    // Room moderation policy for free text that is shown to everyone
+    private moderateText(text: string): { text: string; rejected: boolean } {
+        const result = ProfanityFilter.moderate(text, this.state.config);
+        if (result.flagged) console.log(`🧼 [MODERATION] Flagged text in ${this.state.roomId} (${this.state.config.moderationPolicy})`);
+        return result;
+    }
+
+    // Seats without a token yet (new, or stored before tokens existed) get one on join
+    public needsSessionToken(userId: string): boolean {
+        return !this.state.sessionTokens?.[userId];
+    }
+
+    // Reclaiming a seat needs its token, unless this connection was already bound to it (e.g. on connect)
+    public canClaimSeat(userId: string, sessionToken: string | undefined, connectionId: string): boolean {
+        const stored = this.state.sessionTokens?.[userId];
+        if (!stored || this.connections.get(connectionId) === userId) return true;
+        return sessionToken !== undefined && tokensMatch(sessionToken, stored);
+    }
+
+    // Banned by userId, or by the session token they were banned with (new userId, same browser)
+    public isBanned(userId: string, sessionToken?: string): boolean {
+        if (this.state.bannedUsers?.some(b => b.id === userId)) return true;
+        if (!sessionToken) return false;
+        return Object.values(this.state.bannedTokens ?? {}).some(token => tokensMatch(token, sessionToken));
+    }
+
+    public joinPlayer(userId: string, rawName: string, rawAvatar: string, connectionId: string, asSpectator = false, sessionToken?: string): RoomState {
+        if (this.isBanned(userId, sessionToken)) {
+            console.warn(`[SECURITY] Join denied for ${userId}: banned from ${this.state.roomId}.`);
+            return this.state;
+        }
+        if (!this.canClaimSeat(userId, sessionToken, connectionId)) {
+            console.warn(`[SECURITY] Seat claim denied for ${userId}: missing or invalid session token.`);
+            return this.state;
+        }
         this.connections.set(connectionId, userId);
+        if (sessionToken && this.needsSessionToken(userId)) {
+            this.state.sessionTokens = { ...this.state.sessionTokens, [userId]: sessionToken };
+        }
+
+        // Connect params skip the JOIN schema: clamp here so the stored room always passes it on hydrate
+        const moderatedName = this.moderateText(clampText(rawName.trim(), PLAYER_LIMITS.maxNameLength));
+        const name = moderatedName.rejected || !moderatedName.text ? LANGUAGES[this.state.config.language].playerName : moderatedName.text;
+        const avatar = rawAvatar.length <= PLAYER_LIMITS.maxAvatarLength && this.moderateText(rawAvatar).text === rawAvatar ? rawAvatar : '👤';
 
         const existingPlayer = this.state.players.find(p => p.id === userId);
         if (existingPlayer) {
             existingPlayer.name = name;
             existingPlayer.avatar = avatar;
             existingPlayer.isConnected = true;
-            existingPlayer.lastSeenAt = Date.now();
+            existingPlayer.lastSeenAt = this.clock.now();
             return this.state;
         }
 
+        // Spectators: explicit request, or anyone arriving while a game is running.
+        // Late joiners are queued (wantsToPlay) and enter at the next round instead of mid-round.
+        const existingSpectator = this.state.spectators.find(s => s.id === userId);
+        if (asSpectator || this.state.status !== 'LOBBY') {
+            if (existingSpectator) {
+                existingSpectator.name = name;
+                existingSpectator.avatar = avatar;
+                existingSpectator.isConnected = true;
+                existingSpectator.lastSeenAt = this.clock.now();
+            } else {
+                this.state.spectators.push({
+                    id: userId,
+                    name,
+                    avatar,
+                    isConnected: true,
+                    lastSeenAt: this.clock.now(),
+                    wantsToPlay: !asSpectator
+                });
+                if (!asSpectator) console.log(`[QUEUE] ${name} will join at the next round`);
+            }
+            return this.state;
+        }
+
+        // Spectator joining as a player in the LOBBY
+        if (existingSpectator) {
+            this.state.spectators = this.state.spectators.filter(s => s.id !== userId);
+        }
+
         const newPlayer: Player = {
             id: userId,
             name,
@@ -190,7 +409,7 @@ export class GameEngine {
             score: 0,
             isHost: this.state.players.length === 0, // First player is host
             isConnected: true,
-            lastSeenAt: Date.now()
+            lastSeenAt: this.clock.now()
         };
 
         this.state.players.push(newPlayer);
@@ -201,15 +420,66 @@ export class GameEngine {
         return this.state;
     }
 
+    // Spectator opt-in: in the LOBBY they join right away, otherwise from the next round
+    public setSpectatorWantsToPlay(connectionId: string, enabled: boolean): RoomState {
+        const userId = this.connections.get(connectionId);
+        const spectator = this.state.spectators.find(s => s.id === userId);
+        if (!spectator) return this.state;
+
+        spectator.wantsToPlay = enabled;
+        if (this.state.status === 'LOBBY') {
+            this.promoteSpectators();
+        }
+        return this.state;
+    }
+
+    // Moves queued spectators into `players` (in join order).
+    // Mid-game entries may start with a catch-up score so they are not hopelessly behind.
+    private promoteSpectators(midGame = false) {
+        const ready = this.state.spectators.filter(s => s.wantsToPlay && s.isConnected);
+        if (ready.length === 0) return;
+
+        const startingScore = midGame ? this.getCatchUpScore() : 0;
+
+        this.state.spectators = this.state.spectators.filter(s => !ready.includes(s));
+        ready.forEach((spectator: Spectator) => {
+            this.state.players.push({
+                id: spectator.id,
+                name: spectator.name,
+                avatar: spectator.avatar,
+                score: startingScore,
+                isHost: false,
+                isConnected: true,
+                lastSeenAt: this.clock.now()
+            });
+            console.log(`[SPECTATOR] ${spectator.name} joins as a player`);
+        });
+
+        this.ensureActiveHost();
+    }
+
+    private getCatchUpScore(): number {
+        if (this.state.config.catchUpScore !== 'MINIMUM' || this.state.players.length === 0) return 0;
+        return Math.min(...this.state.players.map(p => p.score));
+    }
+
     public playerDisconnected(connectionId: string): RoomState {
         const userId = this.connections.get(connectionId);
         if (userId) {
             this.connections.delete(connectionId);
 
+            // Spectators never affect the game flow
+            const spectator = this.state.spectators.find(s => s.id === userId);
+            if (spectator) {
+                spectator.isConnected = false;
+                spectator.lastSeenAt = this.clock.now();
+                return this.state;
+            }
+
             const player = this.state.players.find(p => p.id === userId);
             if (player) {
                 player.isConnected = false;
-                player.lastSeenAt = Date.now();
+                player.lastSeenAt = this.clock.now();
 
                 if (player.isHost) {
                     // Host disconnected, try to reassign immediately
@@ -252,23 +522,52 @@ export class GameEngine {
             if (!p.isConnected) p.isHost = false;
         });
 
-        // 3. Appoint new host: First connected player
-        const newHost = this.state.players.find(p => p.isConnected);
+        // 3. Appoint new host: first connected co-host, else first connected player
+        const newHost = this.state.players.find(p => p.isConnected && p.isCoHost) ?? this.state.players.find(p => p.isConnected);
         if (newHost) {
             newHost.isHost = true;
+            newHost.isCoHost = false;
             console.log(`[HOST PROTECTION] New host assigned: ${newHost.name} (${newHost.id})`);
         } else {
             console.log(`[HOST PROTECTION] No active players to assign host.`);
         }
     }
 
+    // Hands the host seat to a connected player; the previous host stays on as co-host
+    public transferHost(connectionId: string, targetUserId: string): RoomState {
+        const host = this.authorize(connectionId, 'MANAGE_ROLES');
+        const target = this.state.players.find(p => p.id === targetUserId);
+        if (!host || !target || target.id === host.id || !target.isConnected) return this.state;
+
+        host.isHost = false;
+        host.isCoHost = true;
+        target.isHost = true;
+        target.isCoHost = false;
+        console.log(`[ROLES] Host transferred from ${host.name} to ${target.name}`);
+        return this.state;
+    }
+
+    public setCoHost(connectionId: string, targetUserId: string, enabled: boolean): RoomState {
+        const host = this.authorize(connectionId, 'MANAGE_ROLES');
+        const target = this.state.players.find(p => p.id === targetUserId);
+        if (!host || !target || target.isHost) return this.state;
+
+        target.isCoHost = enabled;
+        console.log(`[ROLES] ${target.name} ${enabled ? 'promoted to' : 'removed as'} co-host by ${host.name}`);
+        return this.state;
+    }
+
     public reset(): RoomState {
         console.log('[GameEngine] HARD RESET triggered.');
         this.state.status = 'LOBBY';
         this.state.roundsPlayed = 0;
         this.state.currentLetter = null;
+        this.state.letterDeck = buildLetterDeck(this.state.config);
+        this.state.categoryHistory = [];
         this.state.answers = {};
+        this.submittedAnswers = {};
         this.state.answerStatuses = {};
+        this.state.answerVerdicts = {};
         this.state.votes = {};
         this.state.whoFinishedVoting = [];
         this.state.roundScores = {};
@@ -280,10 +579,19 @@ export class GameEngine {
             p.score = 0;
             // keep isHost? Yes.
         });
+        this.promoteSpectators();
 
         return this.state;
     }
 
+    public adminReset(connectionId: string): RoomState {
+        const player = this.authorize(connectionId, 'RESET');
+        if (!player) return this.state;
+
+        console.log(`[ADMIN] Game reset by ${player.name} (${player.id})`);
+        return this.reset();
+    }
+
     // We do NOT remove the player from the list to support reconnection (F5).
     // They remain in the state.
 
@@ -291,45 +599,45 @@ export class GameEngine {
     // For now, we trust the host comes back or the room dies if everyone leaves.
 
     public startGame(connectionId: string): RoomState {
-        const userId = this.connections.get(connectionId);
-        if (!userId) return this.state;
-
-        const player = this.state.players.find(p => p.id === userId);
-        if (player && player.isHost) {
+        // CASE 1: Manual "Next Round" from Results screen
+        if (this.state.status === 'RESULTS') {
+            return this.authorize(connectionId, 'SKIP_PHASE') ? this.forceStartNextRound() : this.state;
+        }
 
-            // CASE 1: Manual "Next Round" from Results screen
-            if (this.state.status === 'RESULTS') {
-                return this.forceStartNextRound();
+        if (!this.authorize(connectionId, 'START')) return this.state;
+
+        // CASE 2: Starting new game from Lobby/GameOver
+        if (this.state.status === 'LOBBY' || this.state.status === 'GAME_OVER') {
+            this.state.roundsPlayed = 0; // Explicit safety reset
+            this.state.gameId = `${this.state.roomId}-${this.clock.now().toString(36)}`;
+            // One seed per game: the previous one is revealed at GAME_OVER and would predict this game
+            if (this.state.rngState !== this.state.seed) this.reseed();
+
+            this.state.status = 'PLAYING';
+            this.state.letterDeck = buildLetterDeck(this.state.config); // Fresh deck per game
+            this.state.currentLetter = this.drawRoundLetter();
+
+            // Select categories based on mode
+            if (this.usesManualCategories()) {
+                this.state.categories = [...this.state.config.selectedCategories];
+            } else {
+                // RANDOM MODE (or fallback if manual is empty)
+                this.state.categoryHistory = [];
+                this.state.categories = this.pickRandomCategories();
             }
 
-            // CASE 2: Starting new game from Lobby/GameOver
-            if (this.state.status === 'LOBBY' || this.state.status === 'GAME_OVER') {
-                this.state.roundsPlayed = 0; // Explicit safety reset
-
-                this.state.status = 'PLAYING';
-                this.state.currentLetter = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.charAt(Math.floor(Math.random() * 26));
-
-                // Select categories based on mode
-                if (this.state.config.mode === 'MANUAL' && this.state.config.selectedCategories.length >= 3) {
-                    this.state.categories = [...this.state.config.selectedCategories];
-                } else {
-                    // RANDOM MODE (or fallback if manual is empty)
-                    // shuffle objects then map to names
-                    const shuffled = [...MASTER_CATEGORIES].sort(() => 0.5 - Math.random());
-                    this.state.categories = shuffled.slice(0, this.state.config.categoriesCount).map(c => c.name);
-                }
-
-                this.state.answers = {}; // Reset answers for new round
-                // Reset Voting System
-                this.state.votes = {};
-                this.state.whoFinishedVoting = [];
-                this.state.roundScores = {};
+            this.state.answers = {}; // Reset answers for new round
+            this.submittedAnswers = {};
+            this.state.answerVerdicts = {};
+            // Reset Voting System
+            this.state.votes = {};
+            this.state.whoFinishedVoting = [];
+            this.state.roundScores = {};
 
-                // Set Timer
-                this.state.timers.roundEndsAt = Date.now() + (this.state.config.roundDuration * 1000);
-                this.state.timers.votingEndsAt = null;
-                this.state.stoppedBy = null;
-            }
+            // Set Timer
+            this.state.timers.roundEndsAt = this.clock.now() + (this.state.config.roundDuration * 1000);
+            this.state.timers.votingEndsAt = null;
+            this.state.stoppedBy = null;
         }
         return this.state;
     }
@@ -342,16 +650,13 @@ export class GameEngine {
         if (player && this.state.status === 'PLAYING') {
             this.state.status = 'REVIEW';
 
-            // Validate and Sanitize
-            const sanitizedAnswers = this.validateAndSanitizeAnswers(answers);
-            if (!sanitizedAnswers) return this.state; // Invalid payload
-
-            this.state.answers[userId] = sanitizedAnswers;
+            if (!this.acceptAnswers(userId, answers)) return this.state; // Invalid payload
+            this.recordAllVerdicts();
 
             // Cancel Round Timer (server will handle clearing alarm if needed, or check state)
             this.state.timers.roundEndsAt = null;
             // Set Voting Timer
-            this.state.timers.votingEndsAt = Date.now() + (this.state.config.votingDuration * 1000);
+            this.state.timers.votingEndsAt = this.clock.now() + (this.state.config.votingDuration * 1000);
             this.state.stoppedBy = userId;
 
             // --- 1vs1 GHOST VOTING ---
@@ -377,9 +682,8 @@ export class GameEngine {
         // Loop all categories
         for (const category of this.state.categories) {
             // Validate A
-            const ansA = this.state.answers[playerA.id]?.[category] || "";
-            const valA = validateWord(ansA, category);
-            if (!valA.isValid) {
+            const verdictA = this.state.answerVerdicts[playerA.id]?.[category];
+            if (verdictA && isAutoRejected(verdictA)) { // Unknown categories are left to the players
                 // Inject vote from B against A
                 if (!this.state.votes[playerA.id]) this.state.votes[playerA.id] = {};
                 if (!this.state.votes[playerA.id][category]) this.state.votes[playerA.id][category] = [];
@@ -390,9 +694,8 @@ export class GameEngine {
             }
 
             // Validate B
-            const ansB = this.state.answers[playerB.id]?.[category] || "";
-            const valB = validateWord(ansB, category);
-            if (!valB.isValid) {
+            const verdictB = this.state.answerVerdicts[playerB.id]?.[category];
+            if (verdictB && isAutoRejected(verdictB)) {
                 // Inject vote from A against B
                 if (!this.state.votes[playerB.id]) this.state.votes[playerB.id] = {};
                 if (!this.state.votes[playerB.id][category]) this.state.votes[playerB.id][category] = [];
@@ -406,17 +709,51 @@ export class GameEngine {
         // which runs AFTER the review phase. We only need to inject rejection votes here.
     }
 
+    // Validator verdict per category for one player (shown in REVIEW, drives the 1vs1 judge).
+    // Judged on the raw words, so answers the sanitizer cleared still explain why (WRONG_LETTER...).
+    private recordVerdicts(playerId: string) {
+        const answers = this.submittedAnswers[playerId] ?? this.state.answers[playerId] ?? {};
+        const verdicts: Record<string, WordVerdict> = {};
+        for (const category of this.state.categories) {
+            const answer = (answers[category] || "").trim().slice(0, 40);
+            verdicts[category] = validateWord(answer, category, {
+                letter: this.state.currentLetter,
+                customCategories: this.state.customCategories,
+                language: this.state.config.language
+            });
+        }
+        this.state.answerVerdicts[playerId] = verdicts;
+    }
+
+    private recordAllVerdicts() {
+        this.state.answerVerdicts = {};
+        for (const player of this.state.players) {
+            this.recordVerdicts(player.id);
+        }
+    }
+
+    // Hands the pending judgements to the transport (which owns the deployment-wide store)
+    public takeLearningJudgements(): LearningJudgement[] {
+        const judgements = this.learningJudgements;
+        this.learningJudgements = [];
+        return judgements;
+    }
+
+    // Hands kicked connections to the transport (drained on read)
+    public takeKickedConnections(): KickedConnection[] {
+        const kicked = this.kickedConnections;
+        this.kickedConnections = [];
+        return kicked;
+    }
+
     public submitAnswers(connectionId: string, answers: Record<string, string>): RoomState {
         const userId = this.connections.get(connectionId);
         if (!userId) return this.state;
 
         const player = this.state.players.find(p => p.id === userId);
         if (player && (this.state.status === 'PLAYING' || this.state.status === 'REVIEW')) {
-            // Validate and Sanitize
-            const sanitizedAnswers = this.validateAndSanitizeAnswers(answers);
-            if (sanitizedAnswers) {
-                this.state.answers[userId] = sanitizedAnswers;
-            }
+            // Verdicts are only revealed once the round is over
+            if (this.acceptAnswers(userId, answers) && this.state.status === 'REVIEW') this.recordVerdicts(userId);
         }
         return this.state;
     }
@@ -424,6 +761,7 @@ export class GameEngine {
         const userId = this.connections.get(connectionId);
         if (!userId || this.state.status !== 'REVIEW') return this.state;
         if (userId === targetUserId) return this.state; // Cannot vote self
+        if (!this.isPlayer(userId)) return this.state; // Spectators cannot vote
 
         if (!this.state.votes[targetUserId]) this.state.votes[targetUserId] = {};
         if (!this.state.votes[targetUserId][category]) this.state.votes[targetUserId][category] = [];
@@ -441,6 +779,7 @@ export class GameEngine {
     public confirmVotes(connectionId: string): RoomState {
         const userId = this.connections.get(connectionId);
         if (!userId || this.state.status !== 'REVIEW') return this.state;
+        if (!this.isPlayer(userId)) return this.state;
 
         if (!this.state.whoFinishedVoting.includes(userId)) {
             this.state.whoFinishedVoting.push(userId);
@@ -451,6 +790,10 @@ export class GameEngine {
         return this.state;
     }
 
+    private isPlayer(userId: string): boolean {
+        return this.state.players.some(p => p.id === userId);
+    }
+
     private checkConsensus() {
         const activePlayers = this.state.players.filter(p => p.isConnected);
         const confirmedActivePlayers = activePlayers.filter(p => this.state.whoFinishedVoting.includes(p.id));
@@ -461,14 +804,41 @@ export class GameEngine {
         }
     }
 
-    public kickPlayer(hostConnectionId: string, targetUserId: string): RoomState {
-        const hostId = this.connections.get(hostConnectionId);
-        if (!hostId) return this.state;
+    // `ban` also keeps them out: rejoining with the same userId or session token is refused
+    public kickPlayer(hostConnectionId: string, targetUserId: string, ban = false): RoomState {
+        const actor = this.authorize(hostConnectionId, 'KICK');
+        if (!actor) return this.state;
+
+        // Only lower ranks (never self, the host, or another co-host)
+        if (!outranks(getRole(this.state, actor.id), getRole(this.state, targetUserId))) return this.state;
+
+        const target = this.state.players.find(p => p.id === targetUserId) ?? this.state.spectators.find(s => s.id === targetUserId);
+        if (!target) return this.state;
+
+        if (ban) {
+            this.state.bannedUsers = [
+                ...(this.state.bannedUsers ?? []).filter(b => b.id !== targetUserId),
+                { id: target.id, name: target.name, avatar: target.avatar, bannedAt: this.clock.now() }
+            ];
+            const token = this.state.sessionTokens?.[targetUserId];
+            if (token) this.state.bannedTokens = { ...this.state.bannedTokens, [targetUserId]: token };
+            console.log(`[SECURITY] ${target.name} banned from ${this.state.roomId} by ${actor.name}`);
+        }
 
-        const hostPlayer = this.state.players.find(p => p.id === hostId);
-        if (!hostPlayer || !hostPlayer.isHost) return this.state; // Only host can kick
+        // Unbind their connections (inefficient but safe scan); the transport closes them
+        for (const [connId, uid] of this.connections.entries()) {
+            if (uid === targetUserId) {
+                this.connections.delete(connId);
+                this.kickedConnections.push({ connectionId: connId, reason: ban ? 'BANNED' : 'KICKED' });
+            }
+        }
 
-        if (hostId === targetUserId) return this.state; // Cannot kick self
+        // Spectators only need to be dropped from the list
+        const spectatorIndex = this.state.spectators.findIndex(s => s.id === targetUserId);
+        if (spectatorIndex !== -1) {
+            this.state.spectators.splice(spectatorIndex, 1);
+            return this.state;
+        }
 
         // Remove player
         const playerIndex = this.state.players.findIndex(p => p.id === targetUserId);
@@ -476,15 +846,9 @@ export class GameEngine {
             // Remove from array
             this.state.players.splice(playerIndex, 1);
 
-            // Clean up connections map (inefficient but safe scan)
-            for (const [connId, uid] of this.connections.entries()) {
-                if (uid === targetUserId) {
-                    this.connections.delete(connId);
-                }
-            }
-
             // Clean up state
             delete this.state.answers[targetUserId];
+            delete this.submittedAnswers[targetUserId];
             delete this.state.votes[targetUserId];
             delete this.state.roundScores[targetUserId];
 
@@ -507,9 +871,24 @@ export class GameEngine {
         return this.state;
     }
 
+    public unbanPlayer(connectionId: string, targetUserId: string): RoomState {
+        const actor = this.authorize(connectionId, 'KICK');
+        if (!actor) return this.state;
+
+        this.state.bannedUsers = (this.state.bannedUsers ?? []).filter(b => b.id !== targetUserId);
+        if (this.state.bannedTokens?.[targetUserId]) {
+            const { [targetUserId]: _token, ...rest } = this.state.bannedTokens;
+            this.state.bannedTokens = rest;
+        }
+        return this.state;
+    }
+
     private calculateResults() {
         this.state.status = 'RESULTS';
-        const totalPlayers = this.state.players.length;
+        const rule = getScoringRule(this.state.config);
+
+        // Learn from the votes before they are cleared by the next round
+        this.learningJudgements.push(...collectJudgements(this.state, this.state.gameId ?? `${this.state.roomId}`));
 
         // Initialize structures
         this.state.answerStatuses = {};
@@ -518,59 +897,40 @@ export class GameEngine {
             this.state.roundScores[p.id] = 0;
         });
 
-        // Loop per category to analyze duplicates
+        // Judge every answer with the same rules the review screen shows (shared/answer-judge)
         for (const category of this.state.categories) {
+            const judgements = this.state.players.map(player => judgeAnswer(this.state, player.id, category));
 
-            // 1. Collect Valid Answers (Not empty, Not voted out)
-            const validAnswersMap: Record<string, string[]> = {}; // Normalized Word -> [PlayerIds]
-
-            this.state.players.forEach(player => {
-                const rawAnswer = this.state.answers[player.id]?.[category];
-
-                // Check empty
-                if (!rawAnswer || !rawAnswer.trim()) {
-                    this.state.answerStatuses[player.id][category] = 'INVALID';
+            judgements.forEach(judgement => {
+                const { playerId, state, isDuplicate, score } = judgement;
+                if (state === 'EMPTY' || state === 'REJECTED') {
+                    this.state.answerStatuses[playerId][category] = 'INVALID';
                     return;
                 }
 
-                // Check voting (Invalidation)
-                const negativeVotes = this.state.votes[player.id]?.[category]?.length || 0;
-                if (negativeVotes > totalPlayers / 2) {
-                    this.state.answerStatuses[player.id][category] = 'INVALID';
-                    return;
-                }
-
-                // It is potentially valid. Add to frequency map.
-                // Normalize: Lowercase + remove accents
-                const normalized = rawAnswer.trim().toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
-
-                if (!validAnswersMap[normalized]) validAnswersMap[normalized] = [];
-                validAnswersMap[normalized].push(player.id);
+                this.state.answerStatuses[playerId][category] = isDuplicate ? 'DUPLICATE' : 'VALID';
+                this.addPoints(playerId, score);
             });
+        }
 
-            // 2. Assign Scores based on Frequency
-            Object.entries(validAnswersMap).forEach(([_word, playerIds]) => {
-                const isDuplicate = playerIds.length > 1;
-                const points = isDuplicate ? 50 : 100;
-                const status = isDuplicate ? 'DUPLICATE' : 'VALID';
-
-                playerIds.forEach(pid => {
-                    this.state.answerStatuses[pid][category] = status;
-
-                    // Add Score
-                    this.state.roundScores[pid] = (this.state.roundScores[pid] || 0) + points;
-
-                    const player = this.state.players.find(p => p.id === pid);
-                    if (player) player.score += points;
-                });
-            });
+        // 3. Stop Bonus (only if the stopper actually scored, so an empty STOP is not rewarded)
+        const stopperId = this.state.stoppedBy;
+        if (rule.stopBonus > 0 && stopperId && (this.state.roundScores[stopperId] || 0) > 0) {
+            this.addPoints(stopperId, rule.stopBonus);
         }
 
         // Clear voting timer
         this.state.timers.votingEndsAt = null;
 
         // Set 10 second timer for results screen
-        this.state.timers.resultsEndsAt = Date.now() + 10000; // 10 seconds
+        this.state.timers.resultsEndsAt = this.clock.now() + 10000; // 10 seconds
+    }
+
+    private addPoints(playerId: string, points: number) {
+        this.state.roundScores[playerId] = (this.state.roundScores[playerId] || 0) + points;
+
+        const player = this.state.players.find(p => p.id === playerId);
+        if (player) player.score += points;
     }
 
 
@@ -597,27 +957,29 @@ export class GameEngine {
             return this.state;
         }
 
+        // Queued players (late joiners / opted-in spectators) join from this round
+        this.promoteSpectators(true);
+
         // Logic similar to startGame but without resetting scores
-        // Randomize letter
-        const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-        this.state.currentLetter = alphabet[Math.floor(Math.random() * alphabet.length)];
+        // Next letter from the deck (no repeats within a game)
+        this.state.currentLetter = this.drawRoundLetter();
 
         // Rotate categories randomly for variety or keep manual
-        if (this.state.config.mode === 'MANUAL' && this.state.config.selectedCategories.length >= 3) {
+        if (this.usesManualCategories()) {
             this.state.categories = [...this.state.config.selectedCategories];
             // In manual mode, we usually keep the SAME categories every round? Or shuffle them?
             // "Tutti Frutti" usually means same categories, different letter.
             // So we just keep them.
         } else {
-            // shuffle objects then map to names
-            const shuffled = [...MASTER_CATEGORIES].sort(() => 0.5 - Math.random());
-            this.state.categories = shuffled.slice(0, this.state.config.categoriesCount).map(c => c.name);
+            this.state.categories = this.pickRandomCategories();
         }
 
         this.state.status = 'PLAYING';
 
         // Clear previous answers
         this.state.answers = {};
+        this.submittedAnswers = {};
+        this.state.answerVerdicts = {};
         this.state.players.forEach(p => {
             this.state.answers[p.id] = {};
         });
@@ -628,7 +990,7 @@ export class GameEngine {
         this.state.roundScores = {};
 
         // Set Timer
-        this.state.timers.roundEndsAt = Date.now() + (this.state.config.roundDuration * 1000);
+        this.state.timers.roundEndsAt = this.clock.now() + (this.state.config.roundDuration * 1000);
         this.state.timers.votingEndsAt = null;
         this.state.timers.resultsEndsAt = null;
         this.state.stoppedBy = null;
@@ -637,21 +999,18 @@ export class GameEngine {
     }
 
     public restartGame(requestorId: string): RoomState {
-        const userId = this.connections.get(requestorId);
-        const player = this.state.players.find(p => p.id === userId);
-
-        // Validate Host
-        if (!player || !player.isHost) {
-            console.warn(`[SECURITY] Restart denied. Requestor ${requestorId} is not host.`);
-            return this.state;
-        }
+        if (!this.authorize(requestorId, 'RESET')) return this.state;
 
         this.state.status = 'LOBBY';
         this.state.roundsPlayed = 0;
         this.state.currentLetter = null;
+        this.state.letterDeck = buildLetterDeck(this.state.config);
         this.state.categories = [];
+        this.state.categoryHistory = [];
         this.state.answers = {};
+        this.submittedAnswers = {};
         this.state.answerStatuses = {};
+        this.state.answerVerdicts = {};
         this.state.votes = {};
         this.state.whoFinishedVoting = [];
         this.state.roundScores = {};
@@ -660,6 +1019,7 @@ export class GameEngine {
         this.state.players.forEach(p => {
             p.score = 0;
         });
+        this.promoteSpectators();
 
         // Clear timers
         this.state.timers.roundEndsAt = null;
@@ -670,6 +1030,15 @@ export class GameEngine {
         return this.state;
     }
 
+    // Sanitized answers go to the state; the raw ones are kept for the verdicts
+    private acceptAnswers(userId: string, rawAnswers: Record<string, string>): boolean {
+        const sanitized = this.validateAndSanitizeAnswers(rawAnswers);
+        if (!sanitized) return false;
+        this.state.answers[userId] = sanitized;
+        this.submittedAnswers[userId] = rawAnswers;
+        return true;
+    }
+
     private validateAndSanitizeAnswers(rawAnswers: any): Record<string, string> | null {
         // 1. Zod Validation
         const result = RoundAnswersSchema.safeParse(rawAnswers);
@@ -685,17 +1054,19 @@ export class GameEngine {
         for (const [key, value] of Object.entries(answers)) {
             let processedValue = value.trim().slice(0, 40); // Hard limit safety
 
-            // 2. Rule Enforcement: Start Letter Check
+            // 2. Rule Enforcement: Start Letter Check (Ñ is its own letter, leading articles are allowed)
             if (allowedLetter && processedValue.length > 0) {
-                const firstChar = processedValue.charAt(0).toUpperCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
-                const targetChar = allowedLetter.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
-
-                if (firstChar !== targetChar) {
+                if (!startsWithLetter(processedValue, allowedLetter, this.state.config.language)) {
                     console.log(`[RULE BREACH] Word '${processedValue}' does not start with '${allowedLetter}'. Cleared.`);
                     processedValue = ""; // WIPE IT
                 }
             }
 
+            // 3. Moderation: masked or cleared depending on the room policy
+            if (processedValue.length > 0) {
+                processedValue = this.moderateText(processedValue).text;
+            }
+
             sanitized[key] = processedValue;
         }
 
@@ -704,7 +1075,7 @@ export class GameEngine {
 
     // --- TIMEOUT / WATCHDOG LOGIC ---
     public checkTimeouts(): RoomState | null {
-        const now = Date.now();
+        const now = this.clock.now();
         let changed = false;
 
         if (this.state.status === 'PLAYING' && this.state.timers.roundEndsAt && now >= this.state.timers.roundEndsAt) {
@@ -727,8 +1098,9 @@ export class GameEngine {
     private forceEndRound() {
         this.state.status = 'REVIEW';
         this.state.timers.roundEndsAt = null;
-        this.state.timers.votingEndsAt = Date.now() + (this.state.config.votingDuration * 1000);
+        this.state.timers.votingEndsAt = this.clock.now() + (this.state.config.votingDuration * 1000);
         this.state.stoppedBy = null; // Fix undefined vs null
+        this.recordAllVerdicts();
 
         // Auto-check for 1v1 or consensus if needed
         this.checkConsensus();
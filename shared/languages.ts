@@ -0,0 +1,15 @@
+import { Language } from './types.js';
+
+// Game languages: the host picks one per room (categories, dictionaries, letters, normalization)
+// `playerName` replaces nicknames the moderation filter rejects
+export const LANGUAGES: Record<Language, { label: string; flag: string; playerName: string }> = {
+    es: { label: 'Español', flag: '🇪🇸', playerName: 'Jugador' },
+    en: { label: 'English', flag: '🇬🇧', playerName: 'Player' },
+    pt: { label: 'Português', flag: '🇧🇷', playerName: 'Jogador' }
+};
+
+export const DEFAULT_LANGUAGE: Language = 'es';
+
+export function isLanguage(value: unknown): value is Language {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+}
@@ -0,0 +1,56 @@
+import { GameConfig, Language, LetterPreset } from './types.js';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+export const LETTER_PRESETS: Record<LetterPreset, { label: string; letters: string[] }> = {
+    COMPLETO: { label: 'Completo (A-Z)', letters: ALPHABET },
+    CLASICO: { label: 'Clásico sin K/W/X/Y/Z', letters: ALPHABET.filter(l => !'KWXYZ'.includes(l)) },
+    CON_ENE: { label: 'Incluye Ñ', letters: [...ALPHABET.slice(0, 14), 'Ñ', ...ALPHABET.slice(14)] }
+};
+
+// Difficulty weighting: easy letters come up more often when `weightedLetters` is on (per game language)
+const HARD_LETTERS: Record<Language, Set<string>> = {
+    es: new Set(['K', 'Ñ', 'Q', 'W', 'X', 'Y', 'Z']),
+    en: new Set(['Q', 'X', 'Z']),
+    pt: new Set(['K', 'Q', 'W', 'X', 'Y', 'Z'])
+};
+const MEDIUM_LETTERS: Record<Language, Set<string>> = {
+    es: new Set(['H', 'I', 'J', 'U', 'V', 'O']),
+    en: new Set(['J', 'K', 'U', 'V', 'Y']),
+    pt: new Set(['H', 'I', 'J', 'U', 'V'])
+};
+
+export function getLetterWeight(letter: string, language: Language = 'es'): number {
+    if (HARD_LETTERS[language].has(letter)) return 1;
+    if (MEDIUM_LETTERS[language].has(letter)) return 2;
+    return 3;
+}
+
+// Letters available for a game with this config (preset minus host exclusions; Ñ only exists in Spanish)
+export function buildLetterDeck(config: GameConfig): string[] {
+    const preset = LETTER_PRESETS[config.letterPreset] ?? LETTER_PRESETS.COMPLETO;
+    const excluded = new Set(config.excludedLetters ?? []);
+    if (config.language && config.language !== 'es') excluded.add('Ñ');
+    return preset.letters.filter(letter => !excluded.has(letter));
+}
+
+/**
+ * Draws one letter without replacement.
+ * `random` must return [0, 1) (the engine passes its seeded PRNG).
+ */
+export function drawLetter(deck: string[], random: () => number, weighted: boolean, language: Language = 'es'): { letter: string; deck: string[] } {
+    if (deck.length === 0) throw new Error('Letter deck is empty');
+
+    let index: number;
+    if (weighted) {
+        const total = deck.reduce((sum, letter) => sum + getLetterWeight(letter, language), 0);
+        let target = random() * total;
+        index = deck.findIndex(letter => (target -= getLetterWeight(letter, language)) < 0);
+        if (index === -1) index = deck.length - 1; // Float rounding safety
+    } else {
+        index = Math.floor(random() * deck.length);
+    }
+
+    const letter = deck[index];
+    return { letter, deck: deck.filter((_, i) => i !== index) };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameEngine } from './game-engine';
+import { dispatchMessage, getNextTimerTarget } from './message-router';
+
+describe('Message Router', () => {
+    let engine: GameEngine;
+
+    beforeEach(() => {
+        engine = new GameEngine('ROUTER_TEST');
+        dispatchMessage(engine, 'conn-host', { type: 'JOIN', payload: { name: 'Host', roomId: 'ROUTER_TEST', userId: 'host', avatar: '🦁' } });
+        dispatchMessage(engine, 'conn-guest', { type: 'JOIN', payload: { name: 'Guest', roomId: 'ROUTER_TEST', userId: 'guest', avatar: '🐼' } });
+    });
+
+    it('should join players through JOIN', () => {
+        expect(engine.getState().players.map(p => p.id)).toEqual(['host', 'guest']);
+    });
+
+    it('should sync answers through UPDATE_ANSWERS', () => {
+        dispatchMessage(engine, 'conn-host', { type: 'START_GAME' });
+        engine.getState().currentLetter = null; // Disable letter rule for this check
+
+        const { state, effects } = dispatchMessage(engine, 'conn-guest', { type: 'UPDATE_ANSWERS', payload: { answers: { Nombre: 'Ana' } } });
+
+        expect(state.answers['guest']).toEqual({ Nombre: 'Ana' });
+        expect(effects).toEqual({ persist: true, broadcast: true, alarm: true, snapshot: false });
+    });
+
+    it('should restart the game only for the host (RESTART_GAME)', () => {
+        dispatchMessage(engine, 'conn-host', { type: 'START_GAME' });
+
+        dispatchMessage(engine, 'conn-guest', { type: 'RESTART_GAME' });
+        expect(engine.getState().status).toBe('PLAYING');
+
+        dispatchMessage(engine, 'conn-host', { type: 'RESTART_GAME' });
+        expect(engine.getState().status).toBe('LOBBY');
+    });
+
+    it('should refuse a JOIN that reclaims a seat without its session token', () => {
+        dispatchMessage(engine, 'conn-carol', { type: 'JOIN', payload: { name: 'Carol', roomId: 'ROUTER_TEST', userId: 'carol', avatar: '🐱', sessionToken: 'v1.abc' } });
+
+        const denied = dispatchMessage(engine, 'conn-other', { type: 'JOIN', payload: { name: 'Eve', roomId: 'ROUTER_TEST', userId: 'carol', avatar: '😈' } });
+        expect(denied.error?.code).toBe('UNAUTHORIZED');
+        expect(denied.effects.broadcast).toBe(false);
+        expect(engine.getUserId('conn-other')).toBeUndefined();
+
+        const reclaimed = dispatchMessage(engine, 'conn-new', { type: 'JOIN', payload: { name: 'Carol', roomId: 'ROUTER_TEST', userId: 'carol', avatar: '🐱', sessionToken: 'v1.abc' } });
+        expect(reclaimed.error).toBeUndefined();
+        expect(engine.getUserId('conn-new')).toBe('carol');
+    });
+
+    it('should mark player as disconnected on EXIT_GAME', () => {
+        dispatchMessage(engine, 'conn-guest', { type: 'EXIT_GAME' });
+        expect(engine.getState().players.find(p => p.id === 'guest')?.isConnected).toBe(false);
+    });
+
+    it('should return no effects for PONG', () => {
+        const { effects } = dispatchMessage(engine, 'conn-host', { type: 'PONG' });
+        expect(effects).toEqual({ persist: false, broadcast: false, alarm: false, snapshot: false });
+    });
+
+    it('should expose the timer of the current phase', () => {
+        expect(getNextTimerTarget(engine.getState())).toBeNull();
+        dispatchMessage(engine, 'conn-host', { type: 'START_GAME' });
+        expect(getNextTimerTarget(engine.getState())).toBe(engine.getState().timers.roundEndsAt);
+    });
+});
@@ -0,0 +1,123 @@
+import { ClientMessage, ErrorPayload, RoomState } from './types.js';
+import { GameEngine } from './game-engine.js';
+
+// Side effects the transport (PartyKit / Mock Server) must apply after a message
+export interface MessageEffects {
+    persist: boolean;   // Write state to storage
+    broadcast: boolean; // Send state to every connection in the room
+    alarm: boolean;     // Re-schedule the watchdog (timers may have changed)
+    snapshot: boolean;  // Send a full state snapshot back to the sender
+}
+
+export interface DispatchResult {
+    state: RoomState;
+    effects: MessageEffects;
+    error?: ErrorPayload; // Refused by the engine: the transport sends it back to the sender
+}
+
+const MUTATION: MessageEffects = { persist: true, broadcast: true, alarm: true, snapshot: false };
+const NO_EFFECTS: MessageEffects = { persist: false, broadcast: false, alarm: false, snapshot: false };
+const SNAPSHOT: MessageEffects = { ...NO_EFFECTS, snapshot: true };
+
+/**
+ * Single entry point for every ClientMessage.
+ * Transport-agnostic: servers only forward (connectionId, message) and apply the returned effects.
+ */
+export function dispatchMessage(engine: GameEngine, connectionId: string, message: ClientMessage): DispatchResult {
+    switch (message.type) {
+        // --- Lobby ---
+        case 'JOIN': {
+            const { userId, name, avatar, spectator, sessionToken } = message.payload;
+            if (engine.isBanned(userId, sessionToken)) {
+                return {
+                    state: engine.getState(),
+                    effects: NO_EFFECTS,
+                    error: { code: 'BANNED', message: 'You are banned from this room', messageType: 'JOIN' }
+                };
+            }
+            if (!engine.canClaimSeat(userId, sessionToken, connectionId)) {
+                return {
+                    state: engine.getState(),
+                    effects: NO_EFFECTS,
+                    error: { code: 'UNAUTHORIZED', message: 'Session token required to reclaim this seat', messageType: 'JOIN' }
+                };
+            }
+            const state = engine.joinPlayer(userId, name, avatar || '👤', connectionId, spectator === true, sessionToken);
+            return { state, effects: MUTATION };
+        }
+
+        case 'EXIT_GAME':
+            return { state: engine.playerDisconnected(connectionId), effects: MUTATION };
+
+        case 'PLAY_NEXT_ROUND':
+            return { state: engine.setSpectatorWantsToPlay(connectionId, message.payload.enabled), effects: MUTATION };
+
+        // --- Game Logic ---
+        case 'START_GAME':
+            return { state: engine.startGame(connectionId), effects: MUTATION };
+
+        case 'STOP_ROUND':
+            return { state: engine.stopRound(connectionId, message.payload.answers), effects: MUTATION };
+
+        case 'SUBMIT_ANSWERS':
+        case 'UPDATE_ANSWERS':
+            // Continuous sync reuses the submit logic (same validation & sanitization)
+            return { state: engine.submitAnswers(connectionId, message.payload.answers), effects: MUTATION };
+
+        // --- Voting Logic ---
+        case 'TOGGLE_VOTE': {
+            const { targetUserId, category } = message.payload;
+            return { state: engine.toggleVote(connectionId, targetUserId, category), effects: MUTATION };
+        }
+
+        case 'CONFIRM_VOTES':
+            return { state: engine.confirmVotes(connectionId), effects: MUTATION };
+
+        // --- Admin Logic ---
+        case 'UPDATE_CONFIG':
+            return { state: engine.updateConfig(connectionId, message.payload), effects: MUTATION };
+
+        case 'ADD_CUSTOM_CATEGORY':
+            return { state: engine.addCustomCategory(connectionId, message.payload), effects: MUTATION };
+
+        case 'KICK_PLAYER':
+            return { state: engine.kickPlayer(connectionId, message.payload.targetUserId, message.payload.ban === true), effects: MUTATION };
+
+        case 'UNBAN_PLAYER':
+            return { state: engine.unbanPlayer(connectionId, message.payload.targetUserId), effects: MUTATION };
+
+        case 'TRANSFER_HOST':
+            return { state: engine.transferHost(connectionId, message.payload.targetUserId), effects: MUTATION };
+
+        case 'PROMOTE_COHOST':
+            return { state: engine.setCoHost(connectionId, message.payload.targetUserId, message.payload.enabled), effects: MUTATION };
+
+        case 'RESTART_GAME':
+            return { state: engine.restartGame(connectionId), effects: MUTATION };
+
+        case 'ADMIN_RESET':
+            return { state: engine.adminReset(connectionId), effects: MUTATION };
+
+        // --- Sync ---
+        case 'REQUEST_SYNC':
+            // Client detected a version gap
+            return { state: engine.getState(), effects: SNAPSHOT };
+
+        case 'PONG':
+            return { state: engine.getState(), effects: NO_EFFECTS };
+
+        default: {
+            const unknown = message as { type?: string };
+            console.warn(`[ROUTER] Unknown message type: ${unknown.type}`);
+            return { state: engine.getState(), effects: NO_EFFECTS };
+        }
+    }
+}
+
+// Next watchdog deadline for the current phase (null when no timer is running)
+export function getNextTimerTarget(state: RoomState): number | null {
+    if (state.status === 'PLAYING' && state.timers.roundEndsAt) return state.timers.roundEndsAt;
+    if (state.status === 'REVIEW' && state.timers.votingEndsAt) return state.timers.votingEndsAt;
+    if (state.status === 'RESULTS' && state.timers.resultsEndsAt) return state.timers.resultsEndsAt;
+    return null;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ProfanityFilter } from './filter';
+import DEFAULT_WORD_LIST from './wordlist.json';
+
+const MASK_MEDIUM = { moderationPolicy: 'MASK', moderationSeverity: 'MEDIUM' } as const;
+
+describe('Profanity Filter', () => {
+    afterEach(() => {
+        ProfanityFilter.loadWordList(DEFAULT_WORD_LIST);
+    });
+
+    it('should fold plurals, accents, repeats and leetspeak', () => {
+        expect(ProfanityFilter.scan('Mierdas')).toEqual([{ word: 'Mierdas', severity: 'MEDIUM' }]);
+        expect(ProfanityFilter.isProfane('MIEEEERDA')).toBe(true);
+        expect(ProfanityFilter.isProfane('p3l0tud0s')).toBe(true);
+        expect(ProfanityFilter.isProfane('Maricones')).toBe(true);
+        expect(ProfanityFilter.isProfane('Estúpido')).toBe(true);
+    });
+
+    it('should see through masked spellings', () => {
+        expect(ProfanityFilter.scan('p*to')).toEqual([{ word: 'p*to', severity: 'MEDIUM' }]);
+        expect(ProfanityFilter.isProfane('m*erdas')).toBe(true);
+        expect(ProfanityFilter.isProfane('****')).toBe(false);
+    });
+
+    it('should leave clean words alone', () => {
+        expect(ProfanityFilter.isProfane('Computadora')).toBe(false);
+        expect(ProfanityFilter.isProfane('Puerto Rico')).toBe(false);
+        expect(ProfanityFilter.isProfane('Carro')).toBe(false);
+    });
+
+    it('should apply the room policy from the severity threshold up', () => {
+        expect(ProfanityFilter.moderate('Qué mierda', MASK_MEDIUM)).toEqual({ text: 'Qué m*****', flagged: true, rejected: false });
+        expect(ProfanityFilter.moderate('Idiota', MASK_MEDIUM).flagged).toBe(false); // LOW is below the threshold
+        expect(ProfanityFilter.moderate('Idiota', { ...MASK_MEDIUM, moderationSeverity: 'LOW' }).text).toBe('I*****');
+        expect(ProfanityFilter.moderate('mierda', { ...MASK_MEDIUM, moderationPolicy: 'REJECT' })).toEqual({ text: '', flagged: true, rejected: true });
+        expect(ProfanityFilter.moderate('mierda', { ...MASK_MEDIUM, moderationPolicy: 'OFF' }).text).toBe('mierda');
+    });
+
+    it('should use the word list of the game language', () => {
+        expect(ProfanityFilter.isProfane('Bitches', 'en')).toBe(true);
+        expect(ProfanityFilter.isProfane('Bitches')).toBe(false);
+        expect(ProfanityFilter.isProfane('Caralho', 'pt')).toBe(true);
+        expect(ProfanityFilter.moderate('shit', { ...MASK_MEDIUM, language: 'en' }).text).toBe('s***');
+    });
+
+    it('should load a custom word list and ignore invalid ones', () => {
+        expect(ProfanityFilter.loadWordList({ version: 1, words: { caramba: 'LOW' } })).toBe(true);
+        expect(ProfanityFilter.isProfane('Caramba')).toBe(true);
+        expect(ProfanityFilter.isProfane('mierda')).toBe(false);
+
+        expect(ProfanityFilter.loadWordList({ version: 1, words: { x: 'EXTREME' } })).toBe(false);
+        expect(ProfanityFilter.isProfane('Caramba')).toBe(true); // Previous list kept
+    });
+});
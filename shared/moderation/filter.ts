@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { GameConfig, Language, ProfanitySeverity } from '../types.js';
+import { foldAccents, normalizeAnswer } from '../normalize.js';
+import { isLanguage } from '../languages.js';
+import DEFAULT_WORD_LIST from './wordlist.json';
+import DEFAULT_WORD_LIST_EN from './wordlist.en.json';
+import DEFAULT_WORD_LIST_PT from './wordlist.pt.json';
+
+// One list per game language (bundlers need static imports)
+const DEFAULT_WORD_LISTS: Record<Language, unknown> = {
+    es: DEFAULT_WORD_LIST,
+    en: DEFAULT_WORD_LIST_EN,
+    pt: DEFAULT_WORD_LIST_PT
+};
+
+export const ProfanityWordListSchema = z.object({
+    version: z.number().int().min(1),
+    locale: z.string().optional(), // Game language the list applies to (default: 'es')
+    words: z.record(z.string().min(2), z.enum(['LOW', 'MEDIUM', 'HIGH']))
+});
+
+export type ProfanityWordList = z.infer<typeof ProfanityWordListSchema>;
+
+export interface ProfanityMatch {
+    word: string; // Token as written ("p*to", "MIERDAS")
+    severity: ProfanitySeverity;
+}
+
+export interface ModerationResult {
+    text: string;      // Masked / emptied text (unchanged when nothing applies)
+    flagged: boolean;  // Something at or above the room threshold was found
+    rejected: boolean; // REJECT policy: the caller should drop the text
+}
+
+const SEVERITY_RANK: Record<ProfanitySeverity, number> = { LOW: 1, MEDIUM: 2, HIGH: 3 };
+
+// Leetspeak commonly used to dodge filters ("p3lotud0", "$udaca")
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+const MASK_CHAR = '*';
+
+function foldLeet(token: string): string {
+    return token.toLowerCase().replace(/[013457@$]/g, c => LEET[c]);
+}
+
+// "mieeerda" -> "mierda" (list words go through the same collapse, so "carro" still matches "carro")
+function collapseRepeats(word: string): string {
+    return word.replace(/(.)\1+/g, '$1');
+}
+
+// Comparable key: leet, accents, plurals and diminutives folded ("Put1tos" -> "puto")
+function toKey(token: string, language: Language): string {
+    return collapseRepeats(normalizeAnswer(foldLeet(token), { language }));
+}
+
+export class ProfanityFilter {
+    private static lists: Partial<Record<Language, Map<string, ProfanitySeverity>>> = {}; // language -> key -> severity
+
+    // Bundled lists for languages nothing was loaded for yet
+    private static getWords(language: Language): Map<string, ProfanitySeverity> {
+        if (!this.lists[language]) this.loadWordList(DEFAULT_WORD_LISTS[language]);
+        return this.lists[language] ?? new Map();
+    }
+
+    // Replaces the active list of its locale (invalid lists are ignored, the previous one stays)
+    public static loadWordList(raw: unknown): boolean {
+        const result = ProfanityWordListSchema.safeParse(raw);
+        if (!result.success) {
+            console.error('[MODERATION] Invalid word list:', result.error.issues[0]?.message);
+            return false;
+        }
+
+        const language: Language = isLanguage(result.data.locale) ? result.data.locale : 'es';
+        this.lists[language] = new Map(Object.entries(result.data.words).map(([word, severity]) => [toKey(word, language), severity]));
+        return true;
+    }
+
+    private static matchToken(token: string, language: Language): ProfanitySeverity | null {
+        const words = this.getWords(language);
+
+        // Masked spelling ("p*to"): each * stands for one letter
+        if (token.includes(MASK_CHAR)) {
+            const letters = foldAccents(foldLeet(token)).replace(/[^a-zñ*]/g, '');
+            if (letters.replace(/\*/g, '').length < 2) return null;
+            const pattern = new RegExp(`^${letters.replace(/\*/g, '.')}$`);
+
+            let worst: ProfanitySeverity | null = null;
+            for (const [key, severity] of words) {
+                const matches = [key, `${key}s`, `${key}es`].some(form => pattern.test(form)); // Plurals too
+                if (matches && (!worst || SEVERITY_RANK[severity] > SEVERITY_RANK[worst])) worst = severity;
+            }
+            return worst;
+        }
+        return words.get(toKey(token, language)) ?? null;
+    }
+
+    public static scan(text: string, language: Language = 'es'): ProfanityMatch[] {
+        const matches: ProfanityMatch[] = [];
+        for (const token of text.split(/\s+/)) {
+            if (!token) continue;
+            const severity = this.matchToken(token, language);
+            if (severity) matches.push({ word: token, severity });
+        }
+        return matches;
+    }
+
+    public static isProfane(text: string, language: Language = 'es'): boolean {
+        return this.scan(text, language).length > 0;
+    }
+
+    // Applies the room policy to free text (answers, names, custom categories)
+    public static moderate(text: string, config: Pick<GameConfig, 'moderationPolicy' | 'moderationSeverity'> & { language?: Language }): ModerationResult {
+        if (config.moderationPolicy === 'OFF') return { text, flagged: false, rejected: false };
+
+        const threshold = SEVERITY_RANK[config.moderationSeverity];
+        const hits = this.scan(text, config.language).filter(m => SEVERITY_RANK[m.severity] >= threshold);
+        if (hits.length === 0) return { text, flagged: false, rejected: false };
+
+        if (config.moderationPolicy === 'REJECT') return { text: '', flagged: true, rejected: true };
+
+        const flaggedTokens = new Set(hits.map(m => m.word));
+        const masked = text.replace(/\S+/g, token =>
+            flaggedTokens.has(token) ? token[0] + MASK_CHAR.repeat(token.length - 1) : token
+        );
+        return { text: masked, flagged: true, rejected: false };
+    }
+}
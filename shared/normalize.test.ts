@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeAnswer, startsWithLetter, foldLetter } from './normalize';
+import { validateWord } from './validator';
+
+describe('Spanish Normalization', () => {
+    it('should fold accents but keep ñ', () => {
+        expect(normalizeAnswer('Ñandú')).toBe('ñandu');
+        expect(normalizeAnswer('Nandú')).toBe('nandu');
+        expect(normalizeAnswer('  CAMIÓN  ')).toBe('camion');
+        expect(foldLetter('ñ')).toBe('Ñ');
+        expect(foldLetter('á')).toBe('A');
+    });
+
+    it('should strip leading articles', () => {
+        expect(normalizeAnswer('El León')).toBe(normalizeAnswer('León'));
+        expect(normalizeAnswer('Las Vegas')).toBe('vega');
+        expect(normalizeAnswer('La')).toBe('la'); // Article alone is kept
+    });
+
+    it('should singularize common plurals', () => {
+        expect(normalizeAnswer('Leones')).toBe(normalizeAnswer('León'));
+        expect(normalizeAnswer('Perros')).toBe('perro');
+        expect(normalizeAnswer('Peces')).toBe('pez');
+        expect(normalizeAnswer('Dulces')).toBe('dulce');
+        expect(normalizeAnswer('Padres')).toBe('padre');
+        expect(normalizeAnswer('Reyes')).toBe('rey');
+        expect(normalizeAnswer('Crisis')).toBe('crisis');
+    });
+
+    it('should keep stressed endings and invariant words singular', () => {
+        expect(normalizeAnswer('Tomás')).toBe('tomas');
+        expect(normalizeAnswer('País')).toBe('pais');
+        expect(normalizeAnswer('Países')).toBe(normalizeAnswer('País'));
+        expect(normalizeAnswer('Lunes')).toBe('lunes');
+        expect(normalizeAnswer('Miércoles')).toBe('miercoles');
+    });
+
+    it('should leave proper nouns as typed', () => {
+        const properNoun = { properNoun: true };
+        expect(normalizeAnswer('Carlos', properNoun)).toBe('carlos');
+        expect(normalizeAnswer('Marcos', properNoun)).toBe('marcos');
+        expect(normalizeAnswer('Buenos Aires', properNoun)).toBe('buenos aires');
+        expect(normalizeAnswer('Margarita', properNoun)).toBe('margarita');
+        expect(normalizeAnswer('Benito', properNoun)).toBe('benito');
+        expect(normalizeAnswer('Tomás', properNoun)).toBe('tomas');
+        expect(normalizeAnswer('El Salvador', properNoun)).toBe('salvador');
+    });
+
+    it('should fold diminutives unless disabled', () => {
+        expect(normalizeAnswer('Perrito')).toBe('perro');
+        expect(normalizeAnswer('Gatitas')).toBe('gata');
+        expect(normalizeAnswer('Cafecito')).toBe('cafe');
+        expect(normalizeAnswer('Amarillo')).toBe('amarillo');
+        expect(normalizeAnswer('Chiquito')).toBe('chico');
+        expect(normalizeAnswer('Amiguitos')).toBe('amigo');
+        expect(normalizeAnswer('Perrito', { foldDiminutives: false })).toBe('perrito');
+    });
+
+    it('should apply the letter rule to the raw or article-less answer', () => {
+        expect(startsWithLetter('Las Vegas', 'V')).toBe(true);
+        expect(startsWithLetter('El León', 'L')).toBe(true);
+        expect(startsWithLetter('La', 'L')).toBe(true); // The article is the whole answer
+        expect(startsWithLetter('Árbol', 'A')).toBe(true);
+        expect(startsWithLetter('Ñandú', 'Ñ')).toBe(true);
+        expect(startsWithLetter('Nandú', 'Ñ')).toBe(false);
+        expect(startsWithLetter('Ñandú', 'N')).toBe(false);
+    });
+
+    it('should not let a leading article make the letter', () => {
+        expect(startsWithLetter('Las Vegas', 'L')).toBe(false);
+        expect(startsWithLetter('Un Mango', 'U')).toBe(false);
+        expect(startsWithLetter('A Maçã', 'A', 'pt')).toBe(false);
+        expect(startsWithLetter('An Apple', 'A', 'en')).toBe(true); // Still fine through the article-less form
+        expect(validateWord('La Pera', 'Fruta/Verdura', { letter: 'L' })).toEqual({ reason: 'WRONG_LETTER', isValid: false });
+        expect(validateWord('El Perú', 'País', { letter: 'E' })).toEqual({ reason: 'WRONG_LETTER', isValid: false });
+        expect(validateWord('La Pera', 'Fruta/Verdura', { letter: 'P' }).isValid).toBe(true);
+    });
+});
+
+describe('English and Portuguese Normalization', () => {
+    it('should apply English articles and plurals', () => {
+        expect(normalizeAnswer('The Lions', { language: 'en' })).toBe('lion');
+        expect(normalizeAnswer('Cherries', { language: 'en' })).toBe('cherry');
+        expect(normalizeAnswer('Boxes', { language: 'en' })).toBe('box');
+        expect(normalizeAnswer('Glass', { language: 'en' })).toBe('glass');
+        expect(startsWithLetter('The Beatles', 'B', 'en')).toBe(true);
+    });
+
+    it('should apply Portuguese articles, plurals and diminutives', () => {
+        expect(normalizeAnswer('Os Leões', { language: 'pt' })).toBe(normalizeAnswer('Leão', { language: 'pt' }));
+        expect(normalizeAnswer('Animais', { language: 'pt' })).toBe('animal');
+        expect(normalizeAnswer('Papéis', { language: 'pt' })).toBe('papel');
+        expect(normalizeAnswer('Leoes', { language: 'pt' })).toBe('leao');
+        expect(normalizeAnswer('Homens', { language: 'pt' })).toBe('homem');
+        expect(normalizeAnswer('Flores', { language: 'pt' })).toBe('flor');
+        expect(normalizeAnswer('Gatinho', { language: 'pt' })).toBe('gato');
+        expect(startsWithLetter('O Rei Leão', 'R', 'pt')).toBe(true);
+    });
+});
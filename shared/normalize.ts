@@ -0,0 +1,166 @@
+import type { Language } from './types.js';
+
+/**
+ * Language-aware answer normalization (duplicates, dictionary lookups, letter rule).
+ * Pipeline: lowercase -> strip leading article -> singularize -> fold diminutives -> fold accents (ñ kept).
+ * Accents are folded last: they tell stressed singulars ("Tomás", "País") apart from plurals.
+ * Spanish is the default; English and Portuguese have their own articles and plural/diminutive rules.
+ */
+
+export interface NormalizeOptions {
+    foldDiminutives?: boolean; // "perrito" -> "perro" (default: true)
+    properNoun?: boolean;      // Names and places: no plural/diminutive rules ("Carlos", "Benito")
+    language?: Language;       // Default: 'es'
+}
+
+interface LanguageRules {
+    articles: Set<string>;
+    singularize(word: string): string;
+    foldDiminutive(word: string): string;
+}
+
+// Vowel + consonant stems take "-es" in the plural (león -> leones, rey -> reyes; "padres" is padre + s)
+const ES_PLURAL_STEM = /[aeiouáéíóú][lnrdjy]$/;
+
+// Singulars that look like plurals
+const ES_INVARIANT = new Set(['lunes', 'martes', 'miercoles', 'jueves', 'viernes']);
+
+// Remove accents/diaeresis but keep ñ as its own letter (NFD splits it into n + U+0303)
+export function foldAccents(str: string): string {
+    return str
+        .normalize("NFD")
+        .replace(/(?<![nN])\u0303|[\u0300-\u0302\u0304-\u036f]/g, "")
+        .normalize("NFC");
+}
+
+// Comparable form of a single letter: "á" -> "A", "ñ" -> "Ñ"
+export function foldLetter(char: string): string {
+    return foldAccents(char.toUpperCase());
+}
+
+function singularizeEs(word: string): string {
+    if (word.length <= 3 || ES_INVARIANT.has(foldAccents(word))) return word;
+    if (/(is|us)$/.test(word)) return word; // crisis, virus, tenis (already singular)
+    if (/[áéíóú]s$/.test(word)) return word; // Stressed ending: Tomás, país, inglés (already singular)
+
+    // países -> país (the plural keeps the stressed vowel)
+    if (/[áéíóú]ses$/.test(word)) return word.slice(0, -2);
+
+    // luces -> luz, peces -> pez (vowel + "ces"; "dulces" is dulce + s)
+    if (/[aeiou]ces$/.test(word)) return word.slice(0, -3) + 'z';
+
+    if (word.endsWith('es') && ES_PLURAL_STEM.test(word.slice(0, -2))) return word.slice(0, -2);
+    if (/[aeiou]s$/.test(word)) return word.slice(0, -1);
+    return word;
+}
+
+function foldDiminutiveEs(word: string): string {
+    if (word.length < 6) return word;
+
+    // cafecito -> cafe, ratoncito -> raton
+    const withC = word.match(/^(.{3,})(cito|cita)$/);
+    if (withC) return withC[1];
+
+    // chiquito -> chico, amiguito -> amigo (the "u" only kept the consonant hard before "i")
+    const hard = word.match(/^(.{2,})(qu|gu)it([oa])$/);
+    if (hard) return hard[1] + (hard[2] === 'qu' ? 'c' : 'g') + hard[3];
+
+    // perrito -> perro, casita -> casa, pajarillo -> pájaro ("amarillo", "cuchillo" are too short to fold)
+    const plain = word.match(/^(.{3,})(it|ill)([oa])$/);
+    if (plain && (plain[2] === 'it' || word.length >= 9)) return plain[1] + plain[3];
+    return word;
+}
+
+// cats -> cat, boxes -> box, cherries -> cherry (glass, bus, iris are already singular)
+function singularizeEn(word: string): string {
+    if (word.length <= 3) return word;
+    if (/(ss|us|is)$/.test(word)) return word;
+    if (/ies$/.test(word) && word.length > 4) return word.slice(0, -3) + 'y';
+    if (/(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+    if (word.endsWith('s')) return word.slice(0, -1);
+    return word;
+}
+
+// animais -> animal, papéis -> papel, leões -> leão (also typed "leoes"), homens -> homem, flores -> flor
+function singularizePt(word: string): string {
+    if (word.length <= 3) return word;
+    if (/[aeoéó]is$/.test(word)) return word.slice(0, -2) + 'l';
+    if (/[õã]es$/.test(word)) return word.slice(0, -3) + 'ão';
+    if (/[oa]es$/.test(word)) return word.slice(0, -3) + 'ao';
+    if (word.endsWith('ns')) return word.slice(0, -2) + 'm';
+    if (/[rzs]es$/.test(word)) return word.slice(0, -2);
+    if (/[aeiou]s$/.test(word)) return word.slice(0, -1);
+    return word;
+}
+
+// gatinho -> gato, casinha -> casa, cafezinho -> cafe
+function foldDiminutivePt(word: string): string {
+    if (word.length < 6) return word;
+    const withZ = word.match(/^(.{3,})(zinho|zinha)$/);
+    if (withZ) return withZ[1];
+    const plain = word.match(/^(.{3,})inh([oa])$/);
+    if (plain) return plain[1] + plain[2];
+    return word;
+}
+
+const LANGUAGE_RULES: Record<Language, LanguageRules> = {
+    es: {
+        articles: new Set(['el', 'la', 'los', 'las', 'lo', 'un', 'una', 'unos', 'unas']),
+        singularize: singularizeEs,
+        foldDiminutive: foldDiminutiveEs
+    },
+    en: {
+        articles: new Set(['the', 'a', 'an']),
+        singularize: singularizeEn,
+        foldDiminutive: word => word // No productive diminutive suffix
+    },
+    pt: {
+        articles: new Set(['o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas']),
+        singularize: singularizePt,
+        foldDiminutive: foldDiminutivePt
+    }
+};
+
+// Lowercase words, accents kept (the plural rules need them)
+const tokenize = (str: string): string[] => str.trim().toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ') // Punctuation acts as a separator
+    .split(/\s+/)
+    .filter(Boolean);
+
+// "El León" starts with an article; "La" alone does not (the article is the whole answer)
+const hasLeadingArticle = (words: string[], rules: LanguageRules): boolean =>
+    words.length > 1 && rules.articles.has(words[0]);
+
+export function normalizeAnswer(str: string, options: NormalizeOptions = {}): string {
+    const { foldDiminutives = true, properNoun = false, language = 'es' } = options;
+    const rules = LANGUAGE_RULES[language] ?? LANGUAGE_RULES.es;
+
+    let words = tokenize(str);
+
+    // "El León" -> "león"
+    if (hasLeadingArticle(words, rules)) words = words.slice(1);
+
+    if (!properNoun) {
+        words = words
+            .map(word => rules.singularize(word))
+            .map(word => (foldDiminutives ? rules.foldDiminutive(word) : word));
+    }
+
+    return words.map(foldAccents).join(' ');
+}
+
+/**
+ * Letter rule: answers with a leading article are judged by their article-less form only.
+ * "El León" is valid for L but not for E (an article never makes the letter); "Nandú" is not valid for Ñ.
+ */
+export function startsWithLetter(answer: string, letter: string, language: Language = 'es'): boolean {
+    const target = foldLetter(letter);
+    const raw = answer.trim();
+    const rules = LANGUAGE_RULES[language] ?? LANGUAGE_RULES.es;
+
+    // Raw character only without an article ("Ñandú" keeps its Ñ; "El Perú" must not pass for E)
+    if (!hasLeadingArticle(tokenize(raw), rules) && raw.length > 0 && foldLetter(raw.charAt(0)) === target) return true;
+
+    const normalized = normalizeAnswer(raw, { foldDiminutives: false, language });
+    return normalized.length > 0 && foldLetter(normalized.charAt(0)) === target;
+}
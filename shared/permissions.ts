@@ -0,0 +1,42 @@
+import { Player, RoomState } from './types.js';
+
+export type Role = 'HOST' | 'COHOST' | 'PLAYER' | 'SPECTATOR';
+
+// Privileged actions. Every engine method that needs one goes through the same guard.
+export type Permission =
+    | 'START'        // Start a game from the lobby / game over
+    | 'CONFIG'       // Room settings and custom categories
+    | 'KICK'         // Remove a lower-ranked player or spectator
+    | 'RESET'        // Back to the lobby (restart / admin reset)
+    | 'SKIP_PHASE'   // Move on from the results screen without waiting for the timer
+    | 'MANAGE_ROLES'; // Transfer the host seat, promote/demote co-hosts
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+    HOST: ['START', 'CONFIG', 'KICK', 'RESET', 'SKIP_PHASE', 'MANAGE_ROLES'],
+    COHOST: ['START', 'CONFIG', 'KICK', 'SKIP_PHASE'],
+    PLAYER: [],
+    SPECTATOR: []
+};
+
+const ROLE_RANK: Record<Role, number> = { HOST: 3, COHOST: 2, PLAYER: 1, SPECTATOR: 0 };
+
+export function getPlayerRole(player: Player): Role {
+    if (player.isHost) return 'HOST';
+    return player.isCoHost ? 'COHOST' : 'PLAYER';
+}
+
+// Role of a user in the room (null when they are not in it)
+export function getRole(state: RoomState, userId: string | null | undefined): Role | null {
+    const player = state.players.find(p => p.id === userId);
+    if (player) return getPlayerRole(player);
+    return state.spectators.some(s => s.id === userId) ? 'SPECTATOR' : null;
+}
+
+export function hasPermission(role: Role | null, permission: Permission): boolean {
+    return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Co-hosts can act on players and spectators, never on the host or each other
+export function outranks(actor: Role | null, target: Role | null): boolean {
+    return actor !== null && target !== null && ROLE_RANK[actor] > ROLE_RANK[target];
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RATE_LIMITS, RateLimiter, resolveRateLimitConfig } from './rate-limiter';
+
+describe('Rate Limiter', () => {
+    it('should refill buckets over time and keep connections and types apart', () => {
+        let now = 0;
+        const limiter = new RateLimiter({
+            ...DEFAULT_RATE_LIMITS,
+            perType: { TOGGLE_VOTE: { capacity: 2, refillPerSecond: 1 } }
+        }, { now: () => now });
+
+        expect(limiter.check('a', 'TOGGLE_VOTE')).toBe('ALLOW');
+        expect(limiter.check('a', 'TOGGLE_VOTE')).toBe('ALLOW');
+        expect(limiter.check('a', 'TOGGLE_VOTE')).toBe('DROP');
+        expect(limiter.check('b', 'TOGGLE_VOTE')).toBe('ALLOW');
+        expect(limiter.check('a', 'PONG')).toBe('ALLOW');
+
+        now += 1000;
+        expect(limiter.check('a', 'TOGGLE_VOTE')).toBe('ALLOW');
+        expect(limiter.check('a', 'TOGGLE_VOTE')).toBe('DROP');
+    });
+
+    it('should coalesce answer updates and disconnect repeat offenders', () => {
+        let now = 0;
+        const limiter = new RateLimiter({
+            ...DEFAULT_RATE_LIMITS,
+            perType: { UPDATE_ANSWERS: { capacity: 1, refillPerSecond: 1 } },
+            maxStrikes: 3,
+            strikeWindowMs: 5000
+        }, { now: () => now });
+
+        expect(limiter.check('a', 'UPDATE_ANSWERS')).toBe('ALLOW');
+        expect(limiter.check('a', 'UPDATE_ANSWERS')).toBe('COALESCE');
+        expect(limiter.check('a', 'UPDATE_ANSWERS')).toBe('COALESCE');
+
+        // Old strikes expire with the window
+        now += 6000;
+        limiter.check('a', 'UPDATE_ANSWERS');
+        expect(limiter.check('a', 'UPDATE_ANSWERS')).toBe('COALESCE');
+        expect(limiter.check('a', 'UPDATE_ANSWERS')).toBe('COALESCE');
+        expect(limiter.check('a', 'UPDATE_ANSWERS')).toBe('DISCONNECT');
+
+        // Trailing flush timing: one token per second
+        now += 400;
+        expect(limiter.retryAfterMs('a', 'UPDATE_ANSWERS')).toBe(600);
+        expect(limiter.retryAfterMs('b', 'UPDATE_ANSWERS')).toBe(0);
+
+        limiter.forget('a');
+        expect(limiter.check('a', 'UPDATE_ANSWERS')).toBe('ALLOW');
+    });
+
+    it('should merge overrides from the environment and ignore invalid ones', () => {
+        const config = resolveRateLimitConfig('{"maxStrikes":50,"perType":{"TOGGLE_VOTE":{"capacity":20,"refillPerSecond":10}}}');
+        expect(config.maxStrikes).toBe(50);
+        expect(config.perType.TOGGLE_VOTE).toEqual({ capacity: 20, refillPerSecond: 10 });
+        expect(config.perType.UPDATE_ANSWERS).toEqual(DEFAULT_RATE_LIMITS.perType.UPDATE_ANSWERS);
+
+        expect(resolveRateLimitConfig('not json')).toBe(DEFAULT_RATE_LIMITS);
+        expect(resolveRateLimitConfig({ maxStrikes: -1 })).toBe(DEFAULT_RATE_LIMITS);
+        expect(resolveRateLimitConfig(undefined)).toBe(DEFAULT_RATE_LIMITS);
+    });
+});
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { ClientMessage } from './types.js';
+import { Clock, systemClock } from './clock.js';
+
+type MessageType = ClientMessage['type'];
+
+export interface BucketLimit {
+    capacity: number;        // Burst size
+    refillPerSecond: number; // Sustained rate
+}
+
+export interface RateLimitConfig {
+    default: BucketLimit;
+    perType: Partial<Record<MessageType, BucketLimit>>;
+    coalesce: MessageType[]; // Over the limit: applied to the engine but not persisted/broadcast
+    maxStrikes: number;      // Over-limit frames within `strikeWindowMs` before disconnecting
+    strikeWindowMs: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+    default: { capacity: 10, refillPerSecond: 5 },
+    perType: {
+        JOIN: { capacity: 3, refillPerSecond: 0.2 },
+        UPDATE_ANSWERS: { capacity: 5, refillPerSecond: 2 }, // Client debounces at 500ms
+        TOGGLE_VOTE: { capacity: 10, refillPerSecond: 4 },
+        UPDATE_CONFIG: { capacity: 10, refillPerSecond: 4 }, // Lobby steppers
+        ADD_CUSTOM_CATEGORY: { capacity: 3, refillPerSecond: 0.5 }
+    },
+    // Latest answers win anyway: the servers flush them once the bucket refills
+    coalesce: ['UPDATE_ANSWERS'],
+    maxStrikes: 20,
+    strikeWindowMs: 10_000
+};
+
+const BucketLimitSchema = z.object({
+    capacity: z.number().min(1),
+    refillPerSecond: z.number().positive()
+});
+
+// Partial overrides from the environment (e.g. RATE_LIMITS='{"maxStrikes":50}')
+const RateLimitOverridesSchema = z.object({
+    default: BucketLimitSchema.optional(),
+    perType: z.record(z.string(), BucketLimitSchema).optional(),
+    coalesce: z.array(z.string()).optional(),
+    maxStrikes: z.number().int().min(1).optional(),
+    strikeWindowMs: z.number().int().min(1).optional()
+});
+
+// Defaults merged with overrides (JSON string or object). Invalid overrides are ignored.
+export function resolveRateLimitConfig(raw: unknown): RateLimitConfig {
+    if (raw === undefined || raw === null || raw === '') return DEFAULT_RATE_LIMITS;
+
+    let data = raw;
+    if (typeof raw === 'string') {
+        try {
+            data = JSON.parse(raw);
+        } catch {
+            console.warn('[RATE LIMIT] RATE_LIMITS is not valid JSON, using defaults');
+            return DEFAULT_RATE_LIMITS;
+        }
+    }
+
+    const result = RateLimitOverridesSchema.safeParse(data);
+    if (!result.success) {
+        console.warn('[RATE LIMIT] Invalid RATE_LIMITS, using defaults:', result.error.issues[0]?.message);
+        return DEFAULT_RATE_LIMITS;
+    }
+
+    const overrides = result.data;
+    return {
+        default: overrides.default ?? DEFAULT_RATE_LIMITS.default,
+        perType: { ...DEFAULT_RATE_LIMITS.perType, ...(overrides.perType as RateLimitConfig['perType']) },
+        coalesce: (overrides.coalesce as MessageType[] | undefined) ?? DEFAULT_RATE_LIMITS.coalesce,
+        maxStrikes: overrides.maxStrikes ?? DEFAULT_RATE_LIMITS.maxStrikes,
+        strikeWindowMs: overrides.strikeWindowMs ?? DEFAULT_RATE_LIMITS.strikeWindowMs
+    };
+}
+
+/**
+ * ALLOW: process normally. COALESCE: apply, defer persist/broadcast to a trailing flush.
+ * DROP: ignore and answer RATE_LIMITED. DISCONNECT: too many strikes, close the connection.
+ */
+export type RateLimitVerdict = 'ALLOW' | 'COALESCE' | 'DROP' | 'DISCONNECT';
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * Token buckets per connection and message type, shared by the PartyKit and mock servers.
+ * Every over-limit frame is a strike; `maxStrikes` inside the window disconnects the sender.
+ */
+export class RateLimiter {
+    private buckets: Map<string, Map<MessageType, Bucket>> = new Map();
+    private strikes: Map<string, number[]> = new Map();
+
+    constructor(private config: RateLimitConfig = DEFAULT_RATE_LIMITS, private clock: Clock = systemClock) {}
+
+    public check(connectionId: string, type: MessageType): RateLimitVerdict {
+        if (this.take(connectionId, type)) return 'ALLOW';
+
+        const now = this.clock.now();
+        const recent = (this.strikes.get(connectionId) ?? []).filter(at => now - at < this.config.strikeWindowMs);
+        recent.push(now);
+        this.strikes.set(connectionId, recent);
+
+        if (recent.length >= this.config.maxStrikes) return 'DISCONNECT';
+        return this.config.coalesce.includes(type) ? 'COALESCE' : 'DROP';
+    }
+
+    // Time until `type` is allowed again for this connection (0 if it already is)
+    public retryAfterMs(connectionId: string, type: MessageType): number {
+        const bucket = this.buckets.get(connectionId)?.get(type);
+        if (!bucket) return 0;
+
+        const limit = this.config.perType[type] ?? this.config.default;
+        const tokens = Math.min(limit.capacity, bucket.tokens + ((this.clock.now() - bucket.updatedAt) / 1000) * limit.refillPerSecond);
+        return tokens >= 1 ? 0 : Math.ceil(((1 - tokens) / limit.refillPerSecond) * 1000);
+    }
+
+    public forget(connectionId: string) {
+        this.buckets.delete(connectionId);
+        this.strikes.delete(connectionId);
+    }
+
+    private take(connectionId: string, type: MessageType): boolean {
+        const limit = this.config.perType[type] ?? this.config.default;
+        const now = this.clock.now();
+
+        let perType = this.buckets.get(connectionId);
+        if (!perType) {
+            perType = new Map();
+            this.buckets.set(connectionId, perType);
+        }
+
+        const bucket = perType.get(type) ?? { tokens: limit.capacity, updatedAt: now };
+        bucket.tokens = Math.min(limit.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond);
+        bucket.updatedAt = now;
+        perType.set(type, bucket);
+
+        if (bucket.tokens < 1) return false;
+        bucket.tokens -= 1;
+        return true;
+    }
+}
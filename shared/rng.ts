@@ -0,0 +1,24 @@
+// Deterministic PRNG (mulberry32). The whole generator state is a single uint32,
+// so it can be persisted in RoomState and resumed after hydration.
+export function nextRandom(state: number): [value: number, nextState: number] {
+    const nextState = (state + 0x6D2B79F5) >>> 0;
+    let t = nextState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    return [value, nextState];
+}
+
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Unbiased Fisher-Yates shuffle driven by the given generator (returns a new array)
+export function shuffle<T>(items: readonly T[], random: () => number): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
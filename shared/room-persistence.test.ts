@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from './game-engine';
+import { ROOM_STATE_VERSION, restoreRoomState, toStoredRoomState } from './room-persistence';
+
+// Room as stored before versioning (original RoomState shape)
+const legacyRoom = () => ({
+    status: 'LOBBY',
+    players: [{ id: 'u1', name: 'Alice', score: 10, isHost: true, isConnected: true, lastSeenAt: 1, avatar: '🦊' }],
+    roomId: 'OLD',
+    currentLetter: null,
+    categories: ['Nombre', 'Color'],
+    answers: {},
+    answerStatuses: {},
+    roundsPlayed: 2,
+    votes: {},
+    whoFinishedVoting: [],
+    roundScores: {},
+    config: { roundDuration: 90, votingDuration: 45, categoriesCount: 5, totalRounds: 5, mode: 'MANUAL', selectedCategories: ['Nombre', 'Color'] },
+    timers: { roundEndsAt: null, votingEndsAt: null, resultsEndsAt: null },
+    stoppedBy: null
+});
+
+describe('Room Persistence', () => {
+    it('should migrate a pre-versioning room and fill the fields it never had', () => {
+        const defaults = new GameEngine('OLD').getState();
+        const result = restoreRoomState(legacyRoom(), defaults);
+
+        expect(result.success).toBe(true);
+        if (!result.success) return;
+        expect(result.migratedFrom).toBe(1);
+        expect(result.state.spectators).toEqual([]);
+        expect(result.state.categoryHistory).toEqual([]);
+        expect(result.state.config).toMatchObject({ roundDuration: 90, mode: 'MANUAL', language: 'es', letterPreset: 'COMPLETO', viabilityCheck: true });
+        expect(result.state.players[0]).toMatchObject({ name: 'Alice', avatar: '🦊', score: 10 });
+    });
+
+    it('should round-trip current records and keep server-only fields', () => {
+        const engine = new GameEngine('ROOM', { seed: 42 });
+        engine.joinPlayer('u1', 'Alice', '🦊', 'c1', false, 'v1.token');
+        const record = JSON.parse(JSON.stringify(toStoredRoomState(engine.getState())));
+
+        expect(record.version).toBe(ROOM_STATE_VERSION);
+        const result = restoreRoomState(record, new GameEngine('ROOM').getState());
+        expect(result.success && result.migratedFrom).toBe(null);
+        expect(result.success && result.state).toEqual(engine.getState());
+    });
+
+    it('should reject records it cannot trust and keep the fresh room', () => {
+        const defaults = new GameEngine('ROOM').getState();
+        expect(restoreRoomState({ version: ROOM_STATE_VERSION + 1, state: {} }, defaults).success).toBe(false);
+        expect(restoreRoomState({ ...legacyRoom(), status: 'DANCING' }, defaults)).toMatchObject({ success: false, error: expect.stringContaining('status') });
+
+        const engine = new GameEngine('ROOM');
+        expect(engine.hydrate('garbage')).toBe(false);
+        expect(engine.getState().roomId).toBe('ROOM');
+    });
+});
@@ -0,0 +1,72 @@
+import { RoomState } from './types.js';
+import { RoomStateSchema } from './schemas.js';
+
+// Historical name: the schema version now travels inside the stored record
+export const ROOM_STORAGE_KEY = 'room_state_v1';
+
+// Stored rooms are loose objects until migrated and validated
+type LegacyState = Record<string, any>;
+
+// Upgrades a state one version up. `defaults` is a fresh room, for fields the old one never had.
+type Migration = (state: LegacyState, defaults: RoomState) => LegacyState;
+
+/**
+ * Ordered upgrades: MIGRATIONS[i] turns a version i+1 state into version i+2.
+ * Adding a RoomState field means appending a migration that fills it (the version follows).
+ */
+const MIGRATIONS: Migration[] = [
+    // 1 -> 2: rooms stored before versioning (bare RoomState). They predate spectators, the letter deck,
+    // category history, custom categories, verdicts and most config options.
+    (state, defaults) => ({
+        ...state,
+        players: (state.players ?? []).map((player: LegacyState) => ({ avatar: '👤', ...player })),
+        spectators: state.spectators ?? [],
+        letterDeck: state.letterDeck ?? [],
+        categoryHistory: state.categoryHistory ?? [],
+        customCategories: state.customCategories ?? [],
+        answerVerdicts: state.answerVerdicts ?? {},
+        config: { ...defaults.config, ...state.config },
+        timers: { ...defaults.timers, ...state.timers },
+        stoppedBy: state.stoppedBy ?? null
+    })
+];
+
+export const ROOM_STATE_VERSION = MIGRATIONS.length + 1;
+
+export interface StoredRoomState {
+    version: number;
+    state: RoomState;
+}
+
+export type RestoreResult =
+    | { success: true; state: RoomState; migratedFrom: number | null }
+    | { success: false; error: string };
+
+export function toStoredRoomState(state: RoomState): StoredRoomState {
+    return { version: ROOM_STATE_VERSION, state };
+}
+
+// Stored record (versioned, or a bare pre-versioning state) -> current RoomState, or why it cannot be used
+export function restoreRoomState(record: unknown, defaults: RoomState): RestoreResult {
+    if (!record || typeof record !== 'object') {
+        return { success: false, error: 'Stored record is not an object' };
+    }
+
+    const versioned = 'version' in record && 'state' in record;
+    const from = versioned ? (record as StoredRoomState).version : 1;
+    if (!Number.isInteger(from) || from < 1 || from > ROOM_STATE_VERSION) {
+        return { success: false, error: `Unsupported state version ${from}` };
+    }
+
+    let state: LegacyState = versioned ? (record as StoredRoomState).state : record;
+    for (let version = from; version < ROOM_STATE_VERSION; version++) {
+        state = MIGRATIONS[version - 1](state, defaults);
+    }
+
+    const parsed = RoomStateSchema.safeParse(state);
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return { success: false, error: `Invalid state at '${issue?.path.join('.') ?? ''}': ${issue?.message}` };
+    }
+    return { success: true, state: parsed.data, migratedFrom: from < ROOM_STATE_VERSION ? from : null };
+}
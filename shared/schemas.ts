@@ -1,51 +1,146 @@
 import { z } from "zod";
+import type { ClientMessage, ErrorPayload } from "./types.js";
+
+// Nickname/avatar limits (the engine clamps what arrives through connect params too)
+export const PLAYER_LIMITS = {
+    maxNameLength: 20,
+    maxAvatarLength: 16
+} as const;
 
 export const PlayerSchema = z.object({
     id: z.string(),
-    name: z.string().min(1).max(20),
+    name: z.string().min(1).max(PLAYER_LIMITS.maxNameLength),
     score: z.number(),
     isHost: z.boolean(),
+    isCoHost: z.boolean().optional(),
     isConnected: z.boolean(),
-    lastSeenAt: z.number()
+    lastSeenAt: z.number(),
+    avatar: z.string().max(PLAYER_LIMITS.maxAvatarLength)
+});
+
+export const SpectatorSchema = z.object({
+    id: z.string(),
+    name: z.string().min(1).max(PLAYER_LIMITS.maxNameLength),
+    avatar: z.string().max(PLAYER_LIMITS.maxAvatarLength),
+    isConnected: z.boolean(),
+    lastSeenAt: z.number(),
+    wantsToPlay: z.boolean()
+});
+
+export const BannedUserSchema = z.object({
+    id: z.string(),
+    name: z.string().min(1).max(PLAYER_LIMITS.maxNameLength),
+    avatar: z.string(),
+    bannedAt: z.number()
 });
 
 export const GameStatusSchema = z.enum(['LOBBY', 'PLAYING', 'REVIEW', 'RESULTS', 'GAME_OVER']);
 
 export const AnswerStatusSchema = z.enum(['VALID', 'DUPLICATE', 'INVALID']);
 
+export const WordVerdictSchema = z.object({
+    reason: z.enum(['EMPTY', 'BLACKLISTED', 'WRONG_LETTER', 'UNKNOWN_CATEGORY', 'NOT_IN_DICTIONARY', 'FUZZY_MATCH', 'EXACT']),
+    isValid: z.boolean(),
+    match: z.string().optional(),
+    distance: z.number().int().min(0).optional()
+});
+
+export const LanguageSchema = z.enum(['es', 'en', 'pt']);
+
 export const GameConfigSchema = z.object({
+    language: LanguageSchema,
     roundDuration: z.number().min(30).max(180),
     votingDuration: z.number().min(15).max(120),
-    categoriesCount: z.number().min(4).max(8),
-    totalRounds: z.number().min(1).max(20)
+    categoriesCount: z.number().min(1).max(10),
+    totalRounds: z.number().min(1).max(20),
+    mode: z.enum(['RANDOM', 'MANUAL']),
+    selectedCategories: z.array(z.string().max(60)).max(20),
+    categoryTags: z.array(z.string().max(20)).max(20),
+    maxPerTag: z.number().int().min(1).max(10),
+    avoidRecentRounds: z.number().int().min(0).max(10),
+    balanceDifficulty: z.boolean(),
+    viabilityCheck: z.boolean(),
+    letterPreset: z.enum(['COMPLETO', 'CLASICO', 'CON_ENE']),
+    excludedLetters: z.array(z.string().length(1)).max(27),
+    weightedLetters: z.boolean(),
+    scoringPreset: z.enum(['CLASICO', 'ARGENTINO', 'SOLO_BONUS', 'CUSTOM']),
+    customScoring: z.object({
+        solo: z.number().int().min(0).max(1000),
+        unique: z.number().int().min(0).max(1000),
+        duplicate: z.number().int().min(0).max(1000),
+        stopBonus: z.number().int().min(0).max(1000)
+    }).optional(),
+    catchUpScore: z.enum(['ZERO', 'MINIMUM']),
+    moderationPolicy: z.enum(['OFF', 'MASK', 'REJECT']),
+    moderationSeverity: z.enum(['LOW', 'MEDIUM', 'HIGH'])
+});
+
+// Size limits for host-defined categories (they are persisted and broadcast with the room)
+export const CUSTOM_CATEGORY_LIMITS = {
+    maxCategories: 10,
+    maxNameLength: 30,
+    maxTags: 5,
+    maxTagLength: 20,
+    maxWords: 300,
+    maxWordLength: 40
+} as const;
+
+export const CustomCategoryInputSchema = z.object({
+    name: z.string().trim().min(1).max(CUSTOM_CATEGORY_LIMITS.maxNameLength),
+    tags: z.array(z.string().trim().min(1).max(CUSTOM_CATEGORY_LIMITS.maxTagLength)).max(CUSTOM_CATEGORY_LIMITS.maxTags),
+    words: z.array(z.string().trim().min(1).max(CUSTOM_CATEGORY_LIMITS.maxWordLength)).max(CUSTOM_CATEGORY_LIMITS.maxWords)
+});
+
+export const CustomCategorySchema = CustomCategoryInputSchema.extend({
+    id: z.string(),
+    wordCount: z.number().int().min(0).optional()
 });
 
 export const RoomStateSchema = z.object({
     status: GameStatusSchema,
     players: z.array(PlayerSchema),
+    spectators: z.array(SpectatorSchema),
     // We can't strictly validate everything easily since it's dynamic keys
     roomId: z.string().nullable(),
     currentLetter: z.string().nullable(),
+    letterDeck: z.array(z.string()),
     categories: z.array(z.string()),
+    categoryHistory: z.array(z.array(z.string())),
+    customCategories: z.array(CustomCategorySchema).max(CUSTOM_CATEGORY_LIMITS.maxCategories),
     answers: z.record(z.string(), z.record(z.string(), z.string())),
     answerStatuses: z.record(z.string(), z.record(z.string(), AnswerStatusSchema)),
+    answerVerdicts: z.record(z.string(), z.record(z.string(), WordVerdictSchema)),
     roundsPlayed: z.number(),
     votes: z.record(z.string(), z.record(z.string(), z.array(z.string()))),
     whoFinishedVoting: z.array(z.string()),
     roundScores: z.record(z.string(), z.number()),
+    answerProgress: z.record(z.string(), z.number()).optional(),
     config: GameConfigSchema,
     timers: z.object({
         roundEndsAt: z.number().nullable(),
         votingEndsAt: z.number().nullable(),
         resultsEndsAt: z.number().nullable()
-    })
+    }),
+    stoppedBy: z.string().nullable(),
+    gameOverReason: z.enum(['NORMAL', 'ABANDONED']).optional(),
+    gameId: z.string().optional(),
+    // Server-only fields (listed so parsing a stored room does not strip them)
+    seed: z.number().optional(),
+    rngState: z.number().optional(),
+    sessionTokens: z.record(z.string(), z.string()).optional(),
+    bannedUsers: z.array(BannedUserSchema).optional(),
+    bannedTokens: z.record(z.string(), z.string()).optional()
 });
 
 export const JoinRoomSchema = z.object({
     type: z.literal('JOIN'),
     payload: z.object({
-        name: z.string().min(1, "El nombre es obligatorio").max(20, "El nombre es muy largo"),
-        userId: z.string(),
+        name: z.string().min(1, "El nombre es obligatorio").max(PLAYER_LIMITS.maxNameLength, "El nombre es muy largo"),
+        roomId: z.string(),
+        userId: z.string().min(1),
+        avatar: z.string().max(PLAYER_LIMITS.maxAvatarLength),
+        spectator: z.boolean().optional(),
+        sessionToken: z.string().max(100).optional(),
     }),
 });
 
@@ -71,6 +166,13 @@ export const SubmitAnswersSchema = z.object({
     })
 });
 
+export const UpdateAnswersSchema = z.object({
+    type: z.literal('UPDATE_ANSWERS'),
+    payload: z.object({
+        answers: RoundAnswersSchema
+    })
+});
+
 export const ToggleVoteSchema = z.object({
     type: z.literal('TOGGLE_VOTE'),
     payload: z.object({
@@ -87,3 +189,110 @@ export const UpdateConfigSchema = z.object({
     type: z.literal('UPDATE_CONFIG'),
     payload: GameConfigSchema.partial()
 });
+
+export const StartGameSchema = z.object({ type: z.literal('START_GAME') });
+export const RestartGameSchema = z.object({ type: z.literal('RESTART_GAME') });
+export const AdminResetSchema = z.object({ type: z.literal('ADMIN_RESET') });
+export const ExitGameSchema = z.object({ type: z.literal('EXIT_GAME') });
+export const PongSchema = z.object({ type: z.literal('PONG') });
+export const RequestSyncSchema = z.object({ type: z.literal('REQUEST_SYNC') });
+
+export const PlayNextRoundSchema = z.object({
+    type: z.literal('PLAY_NEXT_ROUND'),
+    payload: z.object({
+        enabled: z.boolean()
+    })
+});
+
+export const AddCustomCategorySchema = z.object({
+    type: z.literal('ADD_CUSTOM_CATEGORY'),
+    payload: CustomCategoryInputSchema
+});
+
+export const KickPlayerSchema = z.object({
+    type: z.literal('KICK_PLAYER'),
+    payload: z.object({
+        targetUserId: z.string(),
+        ban: z.boolean().optional()
+    })
+});
+
+export const UnbanPlayerSchema = z.object({
+    type: z.literal('UNBAN_PLAYER'),
+    payload: z.object({
+        targetUserId: z.string()
+    })
+});
+
+export const TransferHostSchema = z.object({
+    type: z.literal('TRANSFER_HOST'),
+    payload: z.object({
+        targetUserId: z.string()
+    })
+});
+
+export const PromoteCoHostSchema = z.object({
+    type: z.literal('PROMOTE_COHOST'),
+    payload: z.object({
+        targetUserId: z.string(),
+        enabled: z.boolean()
+    })
+});
+
+// Every frame a client may send. Must stay in sync with ClientMessage in types.ts
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+    JoinRoomSchema,
+    StartGameSchema,
+    StopRoundSchema,
+    SubmitAnswersSchema,
+    UpdateAnswersSchema,
+    ToggleVoteSchema,
+    ConfirmVotesSchema,
+    UpdateConfigSchema,
+    RestartGameSchema,
+    KickPlayerSchema,
+    UnbanPlayerSchema,
+    TransferHostSchema,
+    PromoteCoHostSchema,
+    AdminResetSchema,
+    ExitGameSchema,
+    RequestSyncSchema,
+    PlayNextRoundSchema,
+    AddCustomCategorySchema,
+    PongSchema,
+]);
+
+export type ParseResult =
+    | { success: true; message: ClientMessage }
+    | { success: false; error: ErrorPayload };
+
+// Server boundary: raw frame -> typed ClientMessage or structured ERROR payload
+export function parseClientMessage(raw: string): ParseResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return { success: false, error: { code: 'INVALID_JSON', message: 'Message is not valid JSON' } };
+    }
+
+    const messageType = typeof (data as { type?: unknown })?.type === 'string'
+        ? (data as { type: string }).type
+        : undefined;
+
+    const result = ClientMessageSchema.safeParse(data);
+    if (!result.success) {
+        const issue = result.error.issues[0];
+        const isUnknownType = issue.code === 'invalid_union_discriminator';
+        return {
+            success: false,
+            error: {
+                code: isUnknownType ? 'UNKNOWN_MESSAGE_TYPE' : 'INVALID_PAYLOAD',
+                message: issue.message,
+                messageType,
+                path: issue.path.join('.'),
+            }
+        };
+    }
+
+    return { success: true, message: result.data };
+}
@@ -0,0 +1,39 @@
+import { GameConfig, ScoringPreset, ScoringTable } from './types.js';
+
+// Everything a rule needs to know about one valid (non-empty, not voted out) answer
+export interface AnswerScoringContext {
+    isDuplicate: boolean;      // Another player wrote the same (normalized) word
+    validAnswersCount: number; // Valid answers in this category, including this one
+}
+
+export interface ScoringRule {
+    scoreAnswer(context: AnswerScoringContext): number;
+    stopBonus: number; // Extra points for the player who pressed STOP (if they scored anything)
+}
+
+export const SCORING_PRESETS: Record<Exclude<ScoringPreset, 'CUSTOM'>, { label: string; table: ScoringTable }> = {
+    CLASICO: { label: 'Clásico (100/50)', table: { solo: 100, unique: 100, duplicate: 50, stopBonus: 0 } },
+    ARGENTINO: { label: 'Argentino (20/10/5)', table: { solo: 20, unique: 10, duplicate: 5, stopBonus: 0 } },
+    SOLO_BONUS: { label: 'Bonus Solitario', table: { solo: 150, unique: 100, duplicate: 50, stopBonus: 50 } }
+};
+
+// Table-driven rule: "solo" wins over "unique" when nobody else has a valid answer in the category
+export function createTableRule(table: ScoringTable): ScoringRule {
+    return {
+        scoreAnswer: ({ isDuplicate, validAnswersCount }) => {
+            if (isDuplicate) return table.duplicate;
+            if (validAnswersCount === 1) return table.solo;
+            return table.unique;
+        },
+        stopBonus: table.stopBonus
+    };
+}
+
+// Resolves the rule for a room config (shared by the engine and the review screen)
+export function getScoringRule(config: Pick<GameConfig, 'scoringPreset' | 'customScoring'>): ScoringRule {
+    if (config.scoringPreset === 'CUSTOM' && config.customScoring) {
+        return createTableRule(config.customScoring);
+    }
+    const preset = SCORING_PRESETS[config.scoringPreset as Exclude<ScoringPreset, 'CUSTOM'>] ?? SCORING_PRESETS.CLASICO;
+    return createTableRule(preset.table);
+}
@@ -0,0 +1,28 @@
+// Reconnect tokens: HMAC-SHA256 of "<roomId>:<userId>" with a server secret (Web Crypto, so the
+// same code runs on PartyKit/Workers and on the Node mock server). A token only reclaims its own
+// seat in its own room, and cannot be derived from the userId that travels in the shared state.
+const TOKEN_VERSION = 'v1';
+
+const toBase64Url = (bytes: ArrayBuffer): string =>
+    btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export async function signSessionToken(secret: string, roomId: string, userId: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${roomId}:${userId}`));
+    return `${TOKEN_VERSION}.${toBase64Url(signature)}`;
+}
+
+// Random secret for servers without a configured one
+export function generateSessionSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return toBase64Url(bytes.buffer);
+}
+
+// Constant-time comparison (no early exit on the first differing character)
+export function tokensMatch(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return diff === 0;
+}
@@ -0,0 +1,78 @@
+// Minimal JSON-Patch (RFC 6902 subset: add / replace / remove) for RoomState sync
+export type PatchOp =
+    | { op: 'add' | 'replace'; path: string; value: unknown }
+    | { op: 'remove'; path: string };
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (val: unknown): val is JsonObject =>
+    typeof val === 'object' && val !== null && !Array.isArray(val);
+
+// JSON Pointer escaping: category names like "Fruta/Verdura" contain '/'
+const escapeToken = (token: string) => token.replace(/~/g, '~0').replace(/\//g, '~1');
+const unescapeToken = (token: string) => token.replace(/~1/g, '/').replace(/~0/g, '~');
+
+/**
+ * Computes the ops that turn `prev` into `next`.
+ * Objects are diffed per key, arrays per index when the length is unchanged (otherwise replaced).
+ */
+export function diffState(prev: unknown, next: unknown, path = ''): PatchOp[] {
+    if (prev === next) return [];
+
+    if (Array.isArray(prev) && Array.isArray(next)) {
+        if (prev.length !== next.length) return [{ op: 'replace', path, value: next }];
+        return next.flatMap((item, i) => diffState(prev[i], item, `${path}/${i}`));
+    }
+
+    if (isObject(prev) && isObject(next)) {
+        const ops: PatchOp[] = [];
+        for (const key of Object.keys(prev)) {
+            if (prev[key] !== undefined && next[key] === undefined) {
+                ops.push({ op: 'remove', path: `${path}/${escapeToken(key)}` });
+            }
+        }
+        for (const key of Object.keys(next)) {
+            if (next[key] === undefined) continue; // Not serialized in JSON
+            const childPath = `${path}/${escapeToken(key)}`;
+            if (prev[key] === undefined) {
+                ops.push({ op: 'add', path: childPath, value: next[key] });
+            } else {
+                ops.push(...diffState(prev[key], next[key], childPath));
+            }
+        }
+        return ops;
+    }
+
+    return [{ op: 'replace', path, value: next }];
+}
+
+// Applies ops in place and returns the (possibly replaced) document
+export function applyPatch<T>(doc: T, ops: PatchOp[]): T {
+    let root: unknown = doc;
+
+    for (const op of ops) {
+        if (op.path === '') {
+            root = op.op === 'remove' ? undefined : op.value;
+            continue;
+        }
+
+        const tokens = op.path.slice(1).split('/').map(unescapeToken);
+        const last = tokens.pop()!;
+        let parent = root as JsonObject | unknown[];
+        for (const token of tokens) {
+            parent = (parent as JsonObject)[token] as JsonObject | unknown[];
+            if (parent === undefined || parent === null) {
+                throw new Error(`Invalid patch path: ${op.path}`);
+            }
+        }
+
+        if (op.op === 'remove') {
+            if (Array.isArray(parent)) parent.splice(Number(last), 1);
+            else delete parent[last];
+        } else {
+            (parent as JsonObject)[last] = op.value;
+        }
+    }
+
+    return root as T;
+}
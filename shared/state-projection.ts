@@ -0,0 +1,39 @@
+import { RoomState } from './types.js';
+import { getRole, hasPermission } from './permissions.js';
+
+// Count non-empty answers (progress metadata for rivals)
+function countFilled(answers: Record<string, string> | undefined): number {
+    if (!answers) return 0;
+    return Object.values(answers).filter(val => val && val.trim().length > 0).length;
+}
+
+/**
+ * Builds the view of the room a single viewer is allowed to see.
+ * During PLAYING, rivals' answers are replaced by `answerProgress` (filled categories count).
+ * Answers are fully revealed from REVIEW onwards.
+ * The PRNG state is never sent (it would predict the next letter); the seed is revealed at GAME_OVER.
+ * Session tokens are never sent (they would let anyone reclaim another seat), banned ones included.
+ * Custom category word lists are the answer key: only viewers who can edit them get them, others get `wordCount`.
+ */
+export function projectStateFor(fullState: RoomState, viewerId: string | null | undefined): RoomState {
+    const { rngState: _rngState, sessionTokens: _sessionTokens, bannedTokens: _bannedTokens, seed, ...publicState } = fullState;
+    const state: RoomState = fullState.status === 'GAME_OVER' ? { ...publicState, seed } : publicState;
+
+    if (!hasPermission(getRole(fullState, viewerId), 'CONFIG')) {
+        state.customCategories = state.customCategories.map(({ words, ...category }) => ({ ...category, words: [], wordCount: words.length }));
+    }
+
+    if (state.status !== 'PLAYING') return state;
+
+    const answers: RoomState['answers'] = {};
+    if (viewerId && state.answers[viewerId]) {
+        answers[viewerId] = state.answers[viewerId];
+    }
+
+    const answerProgress: Record<string, number> = {};
+    for (const player of state.players) {
+        answerProgress[player.id] = countFilled(state.answers[player.id]);
+    }
+
+    return { ...state, answers, answerProgress };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from './game-engine';
+import { diffState, applyPatch } from './state-diff';
+import { StateSync } from './state-sync';
+
+describe('State Diff', () => {
+    it('should round-trip nested changes (including "/" in keys)', () => {
+        const prev = { status: 'REVIEW', votes: { p1: { 'Fruta/Verdura': ['p2'] } }, stoppedBy: 'p1', players: [{ id: 'p1', score: 0 }] };
+        const next = { status: 'RESULTS', votes: { p1: { 'Fruta/Verdura': ['p2', 'p3'] } }, players: [{ id: 'p1', score: 100 }] };
+
+        const ops = diffState(prev, next);
+        const patched = applyPatch(JSON.parse(JSON.stringify(prev)), ops);
+
+        expect(patched).toEqual(next);
+        expect(ops).toContainEqual({ op: 'replace', path: '/players/0/score', value: 100 });
+        expect(ops).toContainEqual({ op: 'remove', path: '/stoppedBy' });
+    });
+
+    it('should produce no ops for identical states', () => {
+        const engine = new GameEngine('DIFF');
+        const state = engine.getState();
+        expect(diffState(state, structuredClone(state))).toEqual([]);
+    });
+});
+
+describe('StateSync', () => {
+    it('should send a snapshot first, then chained patches', () => {
+        const engine = new GameEngine('SYNC');
+        const sync = new StateSync();
+
+        engine.joinPlayer('u1', 'Ana', '🦁', 'c1');
+        sync.bump();
+        const first = sync.buildMessage('c1', engine.getState());
+        expect(first?.type).toBe('UPDATE_STATE');
+
+        engine.joinPlayer('u2', 'Beto', '🐼', 'c2');
+        sync.bump();
+        const second = sync.buildMessage('c1', engine.getState());
+        expect(second?.type).toBe('STATE_PATCH');
+        if (second?.type === 'STATE_PATCH') {
+            expect(second.payload.fromVersion).toBe(1);
+            expect(second.payload.version).toBe(2);
+        }
+    });
+
+    it('should skip viewers with no changes and keep their baseline version', () => {
+        const engine = new GameEngine('SYNC');
+        const sync = new StateSync();
+
+        sync.bump();
+        sync.buildMessage('c1', engine.getState());
+        sync.bump();
+        expect(sync.buildMessage('c1', engine.getState())).toBeNull();
+
+        engine.getState().roundsPlayed = 3;
+        sync.bump();
+        const patch = sync.buildMessage('c1', engine.getState());
+        expect(patch?.type === 'STATE_PATCH' && patch.payload.fromVersion).toBe(1);
+    });
+
+    it('should send a full snapshot after forget()', () => {
+        const engine = new GameEngine('SYNC');
+        const sync = new StateSync();
+
+        sync.bump();
+        sync.buildMessage('c1', engine.getState());
+        sync.forget('c1');
+        sync.bump();
+        expect(sync.buildMessage('c1', engine.getState())?.type).toBe('UPDATE_STATE');
+    });
+});
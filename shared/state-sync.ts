@@ -0,0 +1,48 @@
+import { RoomState, ServerMessage } from './types.js';
+import { diffState } from './state-diff.js';
+
+/**
+ * Versioned state stream for one room.
+ * Remembers the last view sent to each connection and turns the next view into a patch.
+ * Connections without a baseline (join, reconnect, resync request) get a full snapshot.
+ */
+export class StateSync {
+    private stateVersion = 0;
+    private lastSent: Map<string, { version: number; view: RoomState }> = new Map();
+
+    public getVersion(): number {
+        return this.stateVersion;
+    }
+
+    // Call once per state change, before building the messages for every connection
+    public bump(): number {
+        return ++this.stateVersion;
+    }
+
+    // Returns null when the viewer has nothing new to receive
+    public buildMessage(connectionId: string, view: RoomState, forceSnapshot = false): ServerMessage | null {
+        const version = this.stateVersion;
+        const previous = this.lastSent.get(connectionId);
+
+        // Deep copy: the engine mutates its state in place
+        const snapshot: RoomState = structuredClone(view);
+        this.lastSent.set(connectionId, { version, view: snapshot });
+
+        if (!previous || forceSnapshot) {
+            return { type: 'UPDATE_STATE', payload: snapshot, version };
+        }
+
+        const ops = diffState(previous.view, snapshot);
+        if (ops.length === 0) {
+            // Keep the old baseline version so the next patch still chains from what the client has
+            this.lastSent.set(connectionId, previous);
+            return null;
+        }
+
+        return { type: 'STATE_PATCH', payload: { fromVersion: previous.version, version, ops } };
+    }
+
+    public forget(connectionId: string): void {
+        this.lastSent.delete(connectionId);
+    }
+}
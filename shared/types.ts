@@ -1,3 +1,5 @@
+import type { PatchOp } from './state-diff.js';
+
 export type GameStatus = 'LOBBY' | 'PLAYING' | 'REVIEW' | 'RESULTS' | 'GAME_OVER';
 
 export interface Player {
@@ -5,30 +7,129 @@ export interface Player {
     name: string;
     score: number;
     isHost: boolean;
+    isCoHost?: boolean; // Shares most host permissions (see permissions.ts)
+    isConnected: boolean;
+    lastSeenAt: number;
+    avatar: string;
+}
+
+// Watches the room without playing or voting
+export interface Spectator {
+    id: string;
+    name: string;
+    avatar: string;
     isConnected: boolean;
     lastSeenAt: number;
+    wantsToPlay: boolean; // Queued to join as a player from the next round
+}
+
+// Removed by the host and not allowed back until unbanned
+export interface BannedUser {
+    id: string;
+    name: string;
     avatar: string;
+    bannedAt: number;
 }
 
+export type KickReason = 'KICKED' | 'BANNED';
+
+// Category defined by the host for one room only (same shape as CategoryItem + accepted words)
+export interface CustomCategory {
+    id: string;      // "custom-<slug>", never collides with MASTER_CATEGORIES ids
+    name: string;
+    tags: string[];
+    words: string[]; // Empty list: no dictionary, players vote
+    wordCount?: number; // Size of the hidden list (only in redacted views)
+}
+
+export interface CustomCategoryInput {
+    name: string;
+    tags: string[];
+    words: string[];
+}
+
+// Game language: category names, dictionaries, letters and normalization rules
+export type Language = 'es' | 'en' | 'pt';
+
+export type LetterPreset = 'COMPLETO' | 'CLASICO' | 'CON_ENE';
+
+export type ScoringPreset = 'CLASICO' | 'ARGENTINO' | 'SOLO_BONUS' | 'CUSTOM';
+
+export interface ScoringTable {
+    solo: number;      // Only valid answer in the category
+    unique: number;    // Valid and nobody else wrote it
+    duplicate: number; // Valid but repeated
+    stopBonus: number; // Player who stopped the round
+}
+
+// Starting score for players who join mid-game
+export type CatchUpScore = 'ZERO' | 'MINIMUM';
+
+// Moderation: tiers of the profanity word list and what the room does with a hit
+export type ProfanitySeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+export type ModerationPolicy = 'OFF' | 'MASK' | 'REJECT';
+
 export interface GameConfig {
+    language: Language;
     roundDuration: number;
     votingDuration: number;
     categoriesCount: number;
     totalRounds: number;
     mode: 'RANDOM' | 'MANUAL';
     selectedCategories: string[];
+    // Random category generation
+    categoryTags: string[];      // Only categories with these tags (empty = all)
+    maxPerTag: number;           // Max categories per round sharing a topic tag
+    avoidRecentRounds: number;   // Don't repeat categories from the last N rounds
+    balanceDifficulty: boolean;  // Cap HARD and guarantee some EASY categories
+    viabilityCheck: boolean;     // Skip letter/category pairs with almost no known answers
+    // Letter Deck
+    letterPreset: LetterPreset;
+    excludedLetters: string[];
+    weightedLetters: boolean; // Easy letters come up more often
+    // Scoring
+    scoringPreset: ScoringPreset;
+    customScoring?: ScoringTable; // Only used with 'CUSTOM'
+    // Late joiners
+    catchUpScore: CatchUpScore;
+    // Moderation (answers, names and custom categories)
+    moderationPolicy: ModerationPolicy;
+    moderationSeverity: ProfanitySeverity; // Lowest tier the policy applies to
 }
 
 export type AnswerStatus = 'VALID' | 'DUPLICATE' | 'INVALID';
 
+// Why the automatic validator accepted/rejected a word
+export type VerdictReason =
+    | 'EMPTY'
+    | 'BLACKLISTED'
+    | 'WRONG_LETTER'
+    | 'UNKNOWN_CATEGORY'
+    | 'NOT_IN_DICTIONARY'
+    | 'FUZZY_MATCH'
+    | 'EXACT';
+
+export interface WordVerdict {
+    reason: VerdictReason;
+    isValid: boolean;
+    match?: string;    // Canonical dictionary entry (e.g. "Perú")
+    distance?: number; // Edit distance to `match` (0 for EXACT)
+}
+
 export interface RoomState {
     status: GameStatus;
     players: Player[];
+    spectators: Spectator[];
     roomId: string | null;
     currentLetter: string | null;
+    letterDeck: string[]; // Letters not yet played in this game (drawn without replacement)
     categories: string[];
+    categoryHistory: string[][]; // Category ids of the last rounds (newest last), for RANDOM mode
+    customCategories: CustomCategory[]; // Host-defined, persisted with the room
     answers: Record<string, Record<string, string>>; // PlayerID -> { Category -> Answer }
     answerStatuses: Record<string, Record<string, AnswerStatus>>; // PlayerID -> { Category -> AnswerStatus }
+    answerVerdicts: Record<string, Record<string, WordVerdict>>; // PlayerID -> { Category -> WordVerdict } (from REVIEW)
+    answerProgress?: Record<string, number>; // PlayerID -> Filled categories (only in redacted PLAYING views)
     roundsPlayed: number;
     // Voting System
     votes: Record<string, Record<string, string[]>>; // targetPlayerId -> category -> voterIds[]
@@ -43,13 +144,22 @@ export interface RoomState {
     };
     stoppedBy: string | null;
     gameOverReason?: 'NORMAL' | 'ABANDONED';
+    gameId?: string; // Set when a game starts (the learning store counts one confirmation per game)
+    // Reproducibility (server-only, redacted from client views until GAME_OVER)
+    seed?: number;
+    rngState?: number;
+    // Signed reconnect token per userId (server-only, never sent to clients)
+    sessionTokens?: Record<string, string>;
+    bannedUsers?: BannedUser[];
+    // Session token of each banned userId, so a new userId with the same token is refused too (server-only)
+    bannedTokens?: Record<string, string>;
 }
 
 // Messages sent from Client to Server
 export type RoundAnswers = Record<string, string>;
 
 export type ClientMessage =
-    | { type: 'JOIN'; payload: { name: string; roomId: string; userId: string; avatar: string } }
+    | { type: 'JOIN'; payload: { name: string; roomId: string; userId: string; avatar: string; spectator?: boolean; sessionToken?: string } }
     | { type: 'START_GAME' }
     | { type: 'STOP_ROUND'; payload: { answers: RoundAnswers } }
     | { type: 'SUBMIT_ANSWERS'; payload: { answers: RoundAnswers } }
@@ -58,10 +168,44 @@ export type ClientMessage =
     | { type: 'CONFIRM_VOTES' }
     | { type: 'UPDATE_CONFIG'; payload: Partial<GameConfig> }
     | { type: 'RESTART_GAME' }
-    | { type: 'KICK_PLAYER'; payload: { targetUserId: string } }
-    | { type: 'EXIT_GAME' };
+    | { type: 'KICK_PLAYER'; payload: { targetUserId: string; ban?: boolean } }
+    | { type: 'UNBAN_PLAYER'; payload: { targetUserId: string } }
+    | { type: 'TRANSFER_HOST'; payload: { targetUserId: string } }
+    | { type: 'PROMOTE_COHOST'; payload: { targetUserId: string; enabled: boolean } }
+    | { type: 'ADMIN_RESET' }
+    | { type: 'EXIT_GAME' }
+    | { type: 'REQUEST_SYNC' }
+    | { type: 'PLAY_NEXT_ROUND'; payload: { enabled: boolean } }
+    | { type: 'ADD_CUSTOM_CATEGORY'; payload: CustomCategoryInput }
+    | { type: 'PONG' };
 
 // Messages sent from Server to Client
+export type ErrorCode =
+    | 'INVALID_JSON'
+    | 'UNKNOWN_MESSAGE_TYPE'
+    | 'INVALID_PAYLOAD'
+    | 'UNAUTHORIZED'
+    | 'BANNED'
+    | 'RATE_LIMITED'
+    | 'INTERNAL_ERROR';
+
+export interface ErrorPayload {
+    code: ErrorCode;
+    message: string;
+    messageType?: string; // Type of the rejected frame, if readable
+    path?: string;        // Offending field path (e.g. "payload.answers.Nombre")
+}
+
+export interface StatePatchPayload {
+    fromVersion: number; // Version the patch applies to (client must be on it)
+    version: number;     // Version after applying the patch
+    ops: PatchOp[];
+}
+
 export type ServerMessage =
-    | { type: 'UPDATE_STATE'; payload: RoomState }
-    | { type: 'SYSTEM'; payload: string };
+    | { type: 'UPDATE_STATE'; payload: RoomState; version?: number } // Full snapshot
+    | { type: 'STATE_PATCH'; payload: StatePatchPayload }
+    | { type: 'SYSTEM'; payload: string }
+    | { type: 'SESSION'; payload: { token: string } } // Reconnect token for this room (sent on join)
+    | { type: 'KICKED'; payload: { reason: KickReason } } // Sent right before the server closes the connection
+    | { type: 'ERROR'; payload: ErrorPayload };
@@ -1,98 +1,88 @@
-// Basic Levenshtein implementation
-export function levenshteinDistance(a: string, b: string): number {
-    if (a.length === 0) return b.length;
-    if (b.length === 0) return a.length;
+import { DictionaryManager } from './dictionaries/manager.js';
+import { ProfanityFilter } from './moderation/filter.js';
+import { startsWithLetter } from './normalize.js';
+import { findCustomCategory, matchCustomWord } from './custom-categories.js';
+import { CustomCategory, Language, WordVerdict, VerdictReason } from './types.js';
 
-    const matrix = [];
+const MAX_FUZZY_DISTANCE = 2;
 
-    // Increment along the first column of each row
-    for (let i = 0; i <= b.length; i++) {
-        matrix[i] = [i];
-    }
+const reject = (reason: VerdictReason): WordVerdict => ({ reason, isValid: false });
 
-    // Increment each column in the first row
-    for (let j = 0; j <= a.length; j++) {
-        matrix[0][j] = j;
-    }
+/**
+ * Policy for categories without a dictionary pack: "unknown -> human vote".
+ * The word is not auto-rejected; players judge it in the review phase (also in 1vs1).
+ */
+const UNKNOWN_CATEGORY: WordVerdict = reject('UNKNOWN_CATEGORY');
 
-    // Fill in the rest of the matrix
-    for (let i = 1; i <= b.length; i++) {
-        for (let j = 1; j <= a.length; j++) {
-            if (b.charAt(i - 1) === a.charAt(j - 1)) {
-                matrix[i][j] = matrix[i - 1][j - 1];
-            } else {
-                matrix[i][j] = Math.min(
-                    matrix[i - 1][j - 1] + 1, // substitution
-                    Math.min(
-                        matrix[i][j - 1] + 1, // insertion
-                        matrix[i - 1][j] + 1  // deletion
-                    )
-                );
-            }
-        }
-    }
-
-    return matrix[b.length][a.length];
+// True when the validator itself rules the word out (unknown categories are left to the players)
+export function isAutoRejected(verdict: WordVerdict): boolean {
+    return !verdict.isValid && verdict.reason !== 'UNKNOWN_CATEGORY';
 }
 
-// Simple blacklist for example purposes
-const BLACKLIST = new Set([
-    "puto", "maricon", "mierda", "verga", "pija", "concha",
-    "retrasado", "imbecil", "estupido", "idiota", "mogolico"
-]);
+export interface ValidationOptions {
+    letter?: string | null;              // Without it the letter rule is not checked
+    customCategories?: CustomCategory[]; // The room's own categories; their word lists only apply to that room
+    language?: Language;                 // Pack and normalization language (default: 'es')
+}
 
-import { DictionaryManager } from './dictionaries/manager.js';
+// A word list exists for the category (room-level custom list or a global pack in the room language)
+export function hasDictionary(category: string, options: Pick<ValidationOptions, 'customCategories' | 'language'> = {}): boolean {
+    const custom = findCustomCategory(options.customCategories, category);
+    if (custom) return (custom.wordCount ?? custom.words.length) > 0;
+    return DictionaryManager.hasPack(category, options.language);
+}
 
-export function validateWord(word: string, category: string): { isValid: boolean, isFuzzy: boolean } {
+export function validateWord(word: string, category: string, options: ValidationOptions = {}): WordVerdict {
+    const { letter, customCategories, language = 'es' } = options;
     const cleanWord = word.trim().toLowerCase();
 
     // 1. Sanity Check
-    if (!cleanWord) return { isValid: false, isFuzzy: false };
+    if (!cleanWord) return reject('EMPTY');
 
-    // 2. Blacklist Check
-    if (BLACKLIST.has(cleanWord)) return { isValid: false, isFuzzy: false };
+    // 2. Profanity Check (any severity: the room policy only decides masking/clearing)
+    if (ProfanityFilter.isProfane(cleanWord, language)) return reject('BLACKLISTED');
 
-    // 3. Dictionary Check (O(1))
+    // 3. Letter rule (same normalization the engine uses when sanitizing answers)
+    if (letter && !startsWithLetter(cleanWord, letter, language)) return reject('WRONG_LETTER');
+
+    // 4. Dictionary Check (O(1))
     // We strictly assume if dict exists, words must be in it.
-    // However, checking existence of collection first is good to define fallback policy.
-    const collection = DictionaryManager.getCollection(category);
+    const custom = findCustomCategory(customCategories, category);
+    if (custom) return validateCustomWord(custom, cleanWord, language);
 
-    if (!collection) {
-        // Fallback: In 1vs1 Authoritative Mode, if we don't know the category, we MUST reject it.
-        return { isValid: false, isFuzzy: false };
+    if (!DictionaryManager.hasPack(category, language)) {
+        return UNKNOWN_CATEGORY;
     }
 
-    // 3.1 Exact Match (via Manager which creates normalized sets)
-    if (DictionaryManager.hasExact(category, cleanWord)) {
-        return { isValid: true, isFuzzy: false };
+    // 4.1 Learned from peer votes: consistently voted down despite matching
+    if (DictionaryManager.isLearnedRejection(category, cleanWord, language)) return reject('NOT_IN_DICTIONARY');
+
+    // 4.2 Exact Match (words, aliases and learned words resolve to their canonical entry)
+    const canonical = DictionaryManager.getCanonical(category, cleanWord, language);
+    if (canonical) {
+        return { reason: 'EXACT', isValid: true, match: canonical, distance: 0 };
     }
 
-    // 4. Fuzzy Match (Typo Tolerance)
-    // Only for words > 4 length
+    // 5. Fuzzy Match (Typo Tolerance)
+    // Only for words > 4 length. Trie index per category, bounded edit distance (accents already stripped).
     if (cleanWord.length > 4) {
-        // We iterate the Set from the Manager
-        for (const validWord of collection) {
-            // Optimization: Length diff check first
-            if (Math.abs(validWord.length - cleanWord.length) > 2) continue;
-
-
-            // Levenshtein on "Peru" vs "Perú" is 1. That's handled.
-            // But manager stores "peru". Input "Perú" -> clean "perú".
-            // cleanWord still has accents? yes, .toLowerCase() doesn't remove accents.
-            // We should ideally compare normalized input against normalized set for fuzzy too.
-            // BUT, removing accents is a type of fuzzy matching itself.
-            // Let's use the same normalize as Manager for optimal check.
-            const normInput = cleanWord.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
-
-            // Check normalized exact match again? hasExact does it.
-            // So this is for real typos. "Perru".
-
-            const distNorm = levenshteinDistance(normInput, validWord);
-            if (distNorm <= 2) {
-                return { isValid: true, isFuzzy: true };
-            }
+        const closest = DictionaryManager.findClosest(category, cleanWord, MAX_FUZZY_DISTANCE, language);
+        if (closest) {
+            const match = DictionaryManager.getCanonical(category, closest.word, language) ?? closest.word;
+            return { reason: 'FUZZY_MATCH', isValid: true, match, distance: closest.distance };
         }
     }
 
-    return { isValid: false, isFuzzy: false };
+    return reject('NOT_IN_DICTIONARY');
+}
+
+// Room-level word list: same verdicts as a pack (the host's spelling is the canonical entry)
+function validateCustomWord(category: CustomCategory, cleanWord: string, language: Language): WordVerdict {
+    if (category.words.length === 0) return UNKNOWN_CATEGORY;
+
+    const maxDistance = cleanWord.length > 4 ? MAX_FUZZY_DISTANCE : 0;
+    const closest = matchCustomWord(category, cleanWord, maxDistance, language);
+    if (!closest) return reject('NOT_IN_DICTIONARY');
+    if (closest.distance === 0) return { reason: 'EXACT', isValid: true, match: closest.word, distance: 0 };
+    return { reason: 'FUZZY_MATCH', isValid: true, match: closest.word, distance: closest.distance };
 }
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { countKnownAnswers, getCategoryViability, isViable } from './viability';
+import type { CustomCategory } from './types';
+
+describe('Letter Viability', () => {
+    it('should count dictionary answers, including ones behind an article', () => {
+        expect(countKnownAnswers('País', 'A')).toBeGreaterThan(5);
+        expect(countKnownAnswers('País', 'Ñ')).toBe(0);
+        expect(isViable('País', 'W')).toBe(false);
+        expect(countKnownAnswers('Country', 'G', { language: 'en' })).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should use custom word lists and the dead-letter table, and assume the rest is playable', () => {
+        const customCategories: CustomCategory[] = [{ id: 'custom-oficina', name: 'Oficina', tags: [], words: ['Silla', 'Stapler', 'Mesa'] }];
+        expect(countKnownAnswers('Oficina', 'S', { customCategories })).toBe(2);
+        expect(isViable('Oficina', 'M', { customCategories })).toBe(false);
+
+        expect(isViable('Marca de Auto', 'Ñ')).toBe(false);
+        expect(countKnownAnswers('Película', 'X')).toBeNull();
+        expect(getCategoryViability('Pecado Capital', ['A', 'B', 'G', 'Z'])).toBe(0.5);
+    });
+});
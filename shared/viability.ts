@@ -0,0 +1,63 @@
+import { CustomCategory, Language } from './types.js';
+import { DictionaryManager } from './dictionaries/manager.js';
+import { getCategoryByName } from './categories.js';
+import { findCustomCategory } from './custom-categories.js';
+import { startsWithLetter } from './normalize.js';
+
+// Fewer known answers than this and the letter/category pair is not dealt
+export const MIN_KNOWN_ANSWERS = 2;
+
+const allLettersExcept = (letters: string): string[] =>
+    'ABCDEFGHIJKLMNÑOPQRSTUVWXYZ'.split('').filter(letter => !letters.includes(letter));
+
+// Hand-made table for categories without a dictionary pack: letters with (almost) no answers.
+// Keyed by CategoryItem.id, so it applies to every game language.
+const DEAD_LETTERS: Record<string, string[]> = {
+    '2': ['Ñ', 'X'],                      // Apellido
+    '23': ['Ñ', 'W', 'X'],                // Título de Canción de Reggaeton
+    '31': ['Ñ', 'Q', 'X', 'Y'],           // Marca de Auto
+    '32': ['Ñ', 'Q', 'X'],                // Marca de Ropa
+    '50': ['Ñ', 'X'],                     // Capital
+    '51': ['Ñ', 'W', 'X'],                // Río/Lago
+    '53': ['Ñ', 'J', 'W', 'X'],           // Moneda
+    '67': allLettersExcept('AEGILPS'),    // Pecado Capital (only seven answers)
+    '72': ['Ñ', 'X'],                     // Equipo de Fútbol
+    '90': ['Ñ', 'Q', 'X'],                // Raza de Perro
+    '93': ['Ñ', 'K', 'W', 'X'],           // Flor
+    '104': ['Ñ', 'K', 'W', 'X']           // Es rojo
+};
+
+export interface ViabilityOptions {
+    customCategories?: CustomCategory[];
+    language?: Language;
+}
+
+/**
+ * Known answers for a category with this letter: custom word list, then the dictionary pack,
+ * then the dead-letter table (0). Null means there is no data and the pair is assumed playable.
+ */
+export function countKnownAnswers(category: string, letter: string, options: ViabilityOptions = {}): number | null {
+    const { customCategories, language = 'es' } = options;
+
+    const custom = findCustomCategory(customCategories, category);
+    if (custom) {
+        return custom.words.length > 0 ? custom.words.filter(word => startsWithLetter(word, letter, language)).length : null;
+    }
+
+    const count = DictionaryManager.countStartingWith(category, letter, language);
+    if (count !== undefined) return count;
+
+    const id = getCategoryByName(category)?.id;
+    return id && DEAD_LETTERS[id]?.includes(letter) ? 0 : null;
+}
+
+export function isViable(category: string, letter: string, options: ViabilityOptions = {}): boolean {
+    const known = countKnownAnswers(category, letter, options);
+    return known === null || known >= MIN_KNOWN_ANSWERS;
+}
+
+// Share of `letters` that are playable for the category (0..1), shown in the manual picker
+export function getCategoryViability(category: string, letters: string[], options: ViabilityOptions = {}): number {
+    if (letters.length === 0) return 1;
+    return letters.filter(letter => isViable(category, letter, options)).length / letters.length;
+}
@@ -12,6 +12,7 @@ vi.mock('./useSocket', async () => {
     const lastMessage = ref('');
     const sendSpy = vi.fn();
     const isConnected = ref(true);
+    const setRoomIdSpy = vi.fn();
 
     // Core Issue: socket must be a Ref whose value has 'send'.
     // We create a persistent socket object.
@@ -23,7 +24,7 @@ vi.mock('./useSocket', async () => {
             socket: socketRef,
             isConnected: isConnected,
             lastMessage: lastMessage,
-            setRoomId: vi.fn(),
+            setRoomId: setRoomIdSpy,
         })
     };
 });
@@ -132,4 +133,58 @@ describe('useGame Composable', () => {
         startGame();
         expect(sendSpy).toHaveBeenCalledWith(JSON.stringify({ type: 'START_GAME' }));
     });
+
+    it('should apply STATE_PATCH on top of the last snapshot', async () => {
+        const { gameState } = useGame();
+
+        await simulateServerMessage({
+            type: 'UPDATE_STATE',
+            version: 1,
+            payload: { status: 'LOBBY', roundsPlayed: 0, players: [], config: {} }
+        });
+
+        await simulateServerMessage({
+            type: 'STATE_PATCH',
+            payload: { fromVersion: 1, version: 2, ops: [{ op: 'replace', path: '/status', value: 'PLAYING' }] }
+        });
+
+        expect(gameState.value.status).toBe('PLAYING');
+    });
+
+    it('should request a resync when a patch version gap is detected', async () => {
+        const { gameState } = useGame();
+        const { socket } = useSocket();
+        const sendSpy = socket.value!.send;
+
+        await simulateServerMessage({
+            type: 'UPDATE_STATE',
+            version: 5,
+            payload: { status: 'LOBBY', roundsPlayed: 0, players: [], config: {} }
+        });
+
+        await simulateServerMessage({
+            type: 'STATE_PATCH',
+            payload: { fromVersion: 7, version: 8, ops: [{ op: 'replace', path: '/status', value: 'PLAYING' }] }
+        });
+
+        expect(gameState.value.status).toBe('LOBBY');
+        expect(sendSpy).toHaveBeenCalledWith(JSON.stringify({ type: 'REQUEST_SYNC' }));
+    });
+
+    it('should reconnect with the session token issued after joining', async () => {
+        vi.restoreAllMocks(); // Earlier tests stub localStorage.getItem
+        const { joinGame } = useGame();
+        const { setRoomId } = useSocket();
+        (global as any).window.location = { href: 'http://localhost/' };
+        (global as any).window.history = { pushState: vi.fn() };
+        localStorage.removeItem('tuti-session-tokens');
+
+        await joinGame('Ana', 'ROOM1', 'avatar1');
+        const connectParams = vi.mocked(setRoomId).mock.calls[0][1] as () => Record<string, string>;
+        expect(connectParams().token).toBeUndefined();
+
+        // First connection: the server hands us a token, later reconnects must present it
+        await simulateServerMessage({ type: 'SESSION', payload: { token: 'v1.abc' } });
+        expect(connectParams()).toMatchObject({ name: 'Ana', avatar: 'avatar1', token: 'v1.abc' });
+    });
 });
@@ -1,28 +1,48 @@
 import { ref, watch, computed } from 'vue';
 import { useSocket } from './useSocket';
 import { debounce } from '../utils/timing';
-import type { RoomState, ServerMessage } from '../../shared/types';
+import { applyPatch } from '../../shared/state-diff';
+import { getRole, hasPermission, Permission } from '../../shared/permissions';
+import type { GameConfig, KickReason, RoomState, ServerMessage } from '../../shared/types';
 
-// Global state to persist across component mounts if needed
-const gameState = ref<RoomState>({
+// Empty room (before joining / after leaving)
+const createEmptyState = (): RoomState => ({
     status: 'LOBBY',
     players: [],
+    spectators: [],
     roomId: null,
     currentLetter: null,
+    letterDeck: [],
     categories: [],
+    categoryHistory: [],
+    customCategories: [],
     answers: {},
     answerStatuses: {},
+    answerVerdicts: {},
     roundsPlayed: 0,
     votes: {},
     whoFinishedVoting: [],
     roundScores: {},
     config: {
+        language: 'es',
         roundDuration: 60,
         votingDuration: 45,
         categoriesCount: 5,
         totalRounds: 5,
         mode: 'RANDOM',
-        selectedCategories: []
+        selectedCategories: [],
+        categoryTags: [],
+        maxPerTag: 2,
+        avoidRecentRounds: 2,
+        balanceDifficulty: true,
+        viabilityCheck: true,
+        letterPreset: 'COMPLETO',
+        excludedLetters: [],
+        weightedLetters: false,
+        scoringPreset: 'CLASICO',
+        catchUpScore: 'ZERO',
+        moderationPolicy: 'MASK',
+        moderationSeverity: 'MEDIUM'
     },
     timers: {
         roundEndsAt: null,
@@ -33,6 +53,34 @@ const gameState = ref<RoomState>({
     gameOverReason: undefined
 });
 
+// Global state to persist across component mounts if needed
+const gameState = ref<RoomState>(createEmptyState());
+
+// Version of the last state received (patches must chain from it)
+const stateVersion = ref<number | null>(null);
+let awaitingSnapshot = false;
+
+// Why the server removed us from the room (App shows it once, then clears it)
+const kickNotice = ref<KickReason | null>(null);
+
+// Reconnect tokens issued by each room (roomId -> token), needed to reclaim our seat
+const STORAGE_KEY_SESSION_TOKENS = 'tuti-session-tokens';
+let joinedRoomId: string | null = null;
+
+const readSessionTokens = (): Record<string, string> => {
+    if (typeof localStorage === 'undefined') return {};
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY_SESSION_TOKENS) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const saveSessionToken = (roomId: string, token: string) => {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY_SESSION_TOKENS, JSON.stringify({ ...readSessionTokens(), [roomId]: token }));
+};
+
 export function useGame() {
     const { socket, lastMessage, setRoomId, isConnected } = useSocket();
 
@@ -45,11 +93,47 @@ export function useGame() {
 
             if (parsed.type === 'UPDATE_STATE') {
                 gameState.value = parsed.payload;
+                stateVersion.value = parsed.version ?? null;
+                awaitingSnapshot = false;
+            } else if (parsed.type === 'STATE_PATCH') {
+                const { fromVersion, version, ops } = parsed.payload;
+
+                // Every useGame() instance sees the same frame: apply it only once
+                if (stateVersion.value === version || awaitingSnapshot) return;
+
+                // Gap detected (missed a message or server restarted): ask for a full snapshot
+                if (stateVersion.value !== fromVersion) {
+                    console.warn(`[SYNC] Version gap (have ${stateVersion.value}, patch from ${fromVersion}). Requesting resync.`);
+                    requestSync();
+                    return;
+                }
+
+                // Patch a copy so watchers still get distinct old/new values
+                const copy: RoomState = JSON.parse(JSON.stringify(gameState.value));
+                gameState.value = applyPatch(copy, ops);
+                stateVersion.value = version;
+            } else if (parsed.type === 'SESSION') {
+                if (joinedRoomId) saveSessionToken(joinedRoomId, parsed.payload.token);
+            } else if (parsed.type === 'KICKED') {
+                kickNotice.value = parsed.payload.reason;
+                clearRoom(); // Closing our side too stops the socket from reconnecting
+            } else if (parsed.type === 'ERROR') {
+                console.warn(`[SERVER ERROR] ${parsed.payload.code}: ${parsed.payload.message}`, parsed.payload);
+                if (parsed.payload.code === 'BANNED') {
+                    kickNotice.value = 'BANNED';
+                    clearRoom();
+                }
             }
         } catch (e) {
             console.error('Failed to parse message:', e);
         }
-    });
+    }, { flush: 'sync' }); // Every frame matters: patches chain on each other
+
+    const requestSync = () => {
+        if (!socket.value) return;
+        awaitingSnapshot = true; // Ignore further patches until the snapshot arrives
+        socket.value.send(JSON.stringify({ type: 'REQUEST_SYNC' }));
+    };
 
     // Persistence Constants
     const STORAGE_KEY_USER_ID = 'tuti-user-id';
@@ -93,20 +177,40 @@ export function useGame() {
         return me?.isHost || false;
     });
 
-    const joinGame = async (name: string, roomId: string, avatar: string) => {
+    // Role-based UI gating (the server enforces the same table)
+    const myRole = computed(() => getRole(gameState.value, myUserId.value));
+    const can = (permission: Permission) => hasPermission(myRole.value, permission);
+
+    // Computed: Check if current user is watching (not playing)
+    const amISpectator = computed(() => (gameState.value.spectators || []).some(s => s.id === myUserId.value));
+
+    const joinGame = async (name: string, roomId: string, avatar: string, asSpectator = false) => {
         const userId = myUserId.value; // Get persistent ID
+        const sessionToken = readSessionTokens()[roomId]; // Proves the seat is ours on reconnect
+        joinedRoomId = roomId;
 
         // 1. Connect to the specific room with Identity Params
         // This ensures the server uses OUR persistent ID, not a random connection ID
-        setRoomId(roomId, {
-            name,
-            userId,
-            avatar
+        // Read lazily: reconnects must carry the token the server issued after this call
+        setRoomId(roomId, () => {
+            const token = readSessionTokens()[roomId];
+            return {
+                name,
+                userId,
+                avatar,
+                ...(token ? { token } : {}),
+                ...(asSpectator ? { spectator: '1' } : {})
+            };
         });
 
         // Update URL for deep linking
         const url = new URL(window.location.href);
         url.searchParams.set('room', roomId);
+        if (asSpectator) {
+            url.searchParams.set('spectate', '1');
+        } else {
+            url.searchParams.delete('spectate');
+        }
         window.history.pushState({}, '', url);
 
         // 2. Wait for connection to open
@@ -133,7 +237,7 @@ export function useGame() {
 
         const message = {
             type: 'JOIN',
-            payload: { name, roomId, userId, avatar }
+            payload: { name, roomId, userId, avatar, spectator: asSpectator, sessionToken }
         };
 
         socket.value.send(JSON.stringify(message));
@@ -194,7 +298,7 @@ export function useGame() {
         }));
     };
 
-    const updateConfig = (config: Partial<{ roundDuration: number; votingDuration: number; categoriesCount: number }>) => {
+    const updateConfig = (config: Partial<GameConfig>) => {
         if (!socket.value) return;
         socket.value.send(JSON.stringify({
             type: 'UPDATE_CONFIG',
@@ -209,49 +313,79 @@ export function useGame() {
         }));
     };
 
-    const kickPlayer = (targetUserId: string) => {
+    // `ban`: they cannot come back until unbanned
+    const kickPlayer = (targetUserId: string, ban = false) => {
         if (!socket.value) return;
         socket.value.send(JSON.stringify({
             type: 'KICK_PLAYER',
+            payload: { targetUserId, ban }
+        }));
+    };
+
+    const unbanPlayer = (targetUserId: string) => {
+        if (!socket.value) return;
+        socket.value.send(JSON.stringify({
+            type: 'UNBAN_PLAYER',
             payload: { targetUserId }
         }));
     };
 
+    // Host-only: hand over the host seat (we stay as co-host)
+    const transferHost = (targetUserId: string) => {
+        if (!socket.value) return;
+        socket.value.send(JSON.stringify({
+            type: 'TRANSFER_HOST',
+            payload: { targetUserId }
+        }));
+    };
+
+    const setCoHost = (targetUserId: string, enabled: boolean) => {
+        if (!socket.value) return;
+        socket.value.send(JSON.stringify({
+            type: 'PROMOTE_COHOST',
+            payload: { targetUserId, enabled }
+        }));
+    };
+
+    // Host-only: room category with an optional accepted word list
+    const addCustomCategory = (name: string, tags: string[], words: string[]) => {
+        if (!socket.value) return;
+        socket.value.send(JSON.stringify({
+            type: 'ADD_CUSTOM_CATEGORY',
+            payload: { name, tags, words }
+        }));
+    };
+
+    // Spectators: opt in/out of playing from the next round
+    const playNextRound = (enabled: boolean) => {
+        if (!socket.value) return;
+        socket.value.send(JSON.stringify({
+            type: 'PLAY_NEXT_ROUND',
+            payload: { enabled }
+        }));
+    };
+
     const leaveGame = () => {
+        // 0. Tell the server we left on purpose (frees host seat / unblocks voting)
+        if (socket.value) {
+            socket.value.send(JSON.stringify({ type: 'EXIT_GAME' }));
+        }
+        clearRoom();
+    };
+
+    // Drop the connection and every trace of the room (state, URL)
+    const clearRoom = () => {
         // 1. Clear State
         setRoomId(null);
-        gameState.value = {
-            status: 'LOBBY',
-            players: [],
-            roomId: null,
-            currentLetter: null,
-            categories: [],
-            answers: {},
-            answerStatuses: {},
-            roundsPlayed: 0,
-            votes: {},
-            whoFinishedVoting: [],
-            roundScores: {},
-            config: {
-                roundDuration: 60,
-                votingDuration: 45,
-                categoriesCount: 5,
-                totalRounds: 5,
-                mode: 'RANDOM',
-                selectedCategories: []
-            },
-            timers: {
-                roundEndsAt: null,
-                votingEndsAt: null,
-                resultsEndsAt: null
-            },
-            stoppedBy: null
-        };
+        stateVersion.value = null;
+        awaitingSnapshot = false;
+        gameState.value = createEmptyState();
 
         // 2. Clear URL
         if (typeof window !== 'undefined') {
             const url = new URL(window.location.href);
             url.searchParams.delete('room');
+            url.searchParams.delete('spectate');
             window.history.pushState({}, '', url);
         }
 
@@ -273,17 +407,27 @@ export function useGame() {
         updateConfig,
         resetGame,
         kickPlayer,
+        unbanPlayer,
+        kickNotice,
+        transferHost,
+        setCoHost,
+        addCustomCategory,
+        playNextRound,
         myUserId,
         myUserName,
         amIHost,
+        myRole,
+        can,
+        amISpectator,
         myUserAvatar,
         tryRestoreSession: () => {
             const url = new URL(window.location.href);
             const roomParam = url.searchParams.get('room');
+            const spectateParam = url.searchParams.get('spectate') === '1';
 
             if (roomParam && myUserId.value && myUserName.value && myUserAvatar.value) {
                 console.log('🔄 Restoring session for room:', roomParam);
-                joinGame(myUserName.value, roomParam, myUserAvatar.value);
+                joinGame(myUserName.value, roomParam, myUserAvatar.value, spectateParam);
                 return true;
             }
             return false;
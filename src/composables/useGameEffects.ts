@@ -1,6 +1,7 @@
 import { ref, computed, watch, onUnmounted, Ref } from 'vue';
 import { RoomState } from '../../shared/types';
 import { useSound } from './useSound';
+import { useI18n } from './useI18n';
 
 interface Toast {
     id: number;
@@ -15,6 +16,7 @@ export function useGameEffects(
     amIHost: Ref<boolean>
 ) {
     const { playClick, playJoin, playTick, playAlarm, playSuccess } = useSound();
+    const { t } = useI18n();
 
     // --- TIMERS ---
     const timeRemaining = ref<number | null>(null);
@@ -98,9 +100,9 @@ export function useGameEffects(
             const op = oldPlayers.find(p => p.id === np.id);
             if (op && np.id !== myUserId.value) {
                 if (np.isConnected && !op.isConnected) {
-                    addToast(`${np.avatar || '👤'} ${np.name} volvió.`, 'join');
+                    addToast(t('toast.playerBack', { avatar: np.avatar || '👤', name: np.name }), 'join');
                 } else if (!np.isConnected && op.isConnected) {
-                    addToast(`${np.avatar || '👤'} ${np.name} salió.`, 'leave');
+                    addToast(t('toast.playerLeft', { avatar: np.avatar || '👤', name: np.name }), 'leave');
                 }
             }
         });
@@ -108,7 +110,7 @@ export function useGameEffects(
         // New players (first join)
         joined.forEach(p => {
             if (p.id !== myUserId.value) {
-                addToast(`${p.avatar || '👤'} ${p.name} entró.`, 'join');
+                addToast(t('toast.playerJoined', { avatar: p.avatar || '👤', name: p.name }), 'join');
             }
         });
 
@@ -117,7 +119,7 @@ export function useGameEffects(
     // Host Notification
     watch(amIHost, (isHost, wasHost) => {
         if (isHost && !wasHost) {
-            addToast("👑 ¡Ahora eres el Anfitrión!", 'join');
+            addToast(t('toast.youAreHost'), 'join');
         }
     });
 
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { useI18n } from './useI18n';
+import { es } from '../i18n/es';
+import { en } from '../i18n/en';
+import { pt } from '../i18n/pt';
+
+describe('useI18n', () => {
+    it('should translate with placeholders and switch locale globally', () => {
+        const { t, setLocale, locale } = useI18n();
+
+        setLocale('en');
+        expect(t('lobby.kickConfirm', { name: 'Ana' })).toBe('Are you sure you want to kick Ana?');
+        expect(useI18n().locale.value).toBe('en'); // Singleton
+
+        setLocale('pt');
+        expect(t('game.waiting', { count: 2 })).toBe('⏳ 2 esperando');
+
+        setLocale('es');
+        expect(locale.value).toBe('es');
+        expect(t('toast.playerJoined', { avatar: '🦁', name: 'Ana' })).toBe('🦁 Ana entró.');
+    });
+
+    it('should keep the same placeholders in every catalog', () => {
+        const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+        for (const key of Object.keys(es) as (keyof typeof es)[]) {
+            expect(placeholders(en[key]), key).toEqual(placeholders(es[key]));
+            expect(placeholders(pt[key]), key).toEqual(placeholders(es[key]));
+        }
+    });
+});
@@ -0,0 +1,37 @@
+import { ref } from 'vue';
+import type { Language } from '../../shared/types';
+import { isLanguage } from '../../shared/languages';
+import { es, MessageKey, Messages } from '../i18n/es';
+import { en } from '../i18n/en';
+import { pt } from '../i18n/pt';
+
+const CATALOGS: Record<Language, Messages> = { es, en, pt };
+
+const STORAGE_KEY_LOCALE = 'tuti-locale';
+
+// Saved choice first, then the browser language, then Spanish
+const detectLocale = (): Language => {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY_LOCALE) : null;
+    if (isLanguage(stored)) return stored;
+
+    const browser = typeof navigator !== 'undefined' ? navigator.language?.slice(0, 2) : undefined;
+    return isLanguage(browser) ? browser : 'es';
+};
+
+// Global UI language (independent from the room's game language)
+const locale = ref<Language>(detectLocale());
+
+export function useI18n() {
+    const setLocale = (language: Language) => {
+        locale.value = language;
+        if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY_LOCALE, language);
+    };
+
+    // Reading `locale` inside t() makes templates re-render on switch
+    const t = (key: MessageKey, params: Record<string, string | number> = {}): string => {
+        const template = CATALOGS[locale.value][key] ?? es[key] ?? key;
+        return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+    };
+
+    return { locale, setLocale, t };
+}
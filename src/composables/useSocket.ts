@@ -11,7 +11,8 @@ const isConnected = ref(false);
 const lastMessage = ref<string>('');
 
 export function useSocket() {
-    const setRoomId = (roomId: string | null, params: Record<string, string> = {}) => {
+    // `params` may be a function: PartySocket calls it again on every reconnect (fresh session token)
+    const setRoomId = (roomId: string | null, params: Record<string, string> | (() => Record<string, string>) = {}) => {
         // 1. Close existing connection if any
         if (socket.value) {
             console.log('🔌 Switching rooms... Closing old connection.');
@@ -29,12 +30,12 @@ export function useSocket() {
         // const querySuffix = queryString ? `?${queryString}` : ''; // Unused, PartySocket handles this via 'query' option
 
         // 2. Create new connection
-        console.log(`🔌 Connecting to room: ${roomId} on host: ${PARTYKIT_HOST} with params:`, params);
+        console.log(`🔌 Connecting to room: ${roomId} on host: ${PARTYKIT_HOST} with params:`, typeof params === 'function' ? params() : params);
 
         if (import.meta.env.DEV) {
             // Mock Server Connection (Native WebSocket)
             // Ensure we append params correctly. Mock server expects roomId in query param too.
-            const mockParams = new URLSearchParams(params);
+            const mockParams = new URLSearchParams(typeof params === 'function' ? params() : params);
             mockParams.set("roomId", roomId);
             const ws = new WebSocket(`ws://${PARTYKIT_HOST}?${mockParams.toString()}`);
 
@@ -59,7 +60,7 @@ export function useSocket() {
             socket.value = new PartySocket({
                 host: PARTYKIT_HOST,
                 room: roomId,
-                query: params // PartySocket handles query params natively
+                query: params // PartySocket handles query params natively (and re-reads them on reconnect)
             });
 
             socket.value.addEventListener('open', () => {
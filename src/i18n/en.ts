@@ -0,0 +1,159 @@
+import type { Messages } from './es';
+
+export const en: Messages = {
+    // App
+    'app.connected': 'Connected',
+    'app.disconnected': 'Disconnected',
+    'app.kicked': 'The host removed you from the room.',
+    'app.banned': 'You were banned and cannot rejoin this room.',
+
+    // Home
+    'home.welcome': 'Welcome',
+    'home.language': 'Language',
+    'home.chooseAvatar': 'Choose your Avatar',
+    'home.yourName': 'Your Name',
+    'home.namePlaceholder': "What's your name?",
+    'home.createRoom': 'Create New Room',
+    'home.joinRoom': 'Join Room',
+    'home.roomCode': 'Room Code',
+    'home.enter': 'Join',
+    'home.watchOnly': '👀 Just watch',
+    'home.nameRequired': 'Please enter your name first',
+    'home.invalidCode': 'Invalid room code',
+
+    // Common
+    'common.cancel': 'Cancel',
+    'common.exit': 'Leave',
+    'common.me': 'ME',
+    'common.points': '{score} pts',
+    'common.waitingHost': 'Waiting for the host...',
+
+    // Lobby
+    'lobby.title': 'COMMAND CENTER',
+    'lobby.roomCode': 'Room Code',
+    'lobby.shareCode': 'Share this code to invite',
+    'lobby.players': 'Players',
+    'lobby.connected': 'Connected',
+    'lobby.disconnected': 'Disconnected',
+    'lobby.spectators': '👀 Spectators ({count})',
+    'lobby.queued': '⏳ QUEUED',
+    'lobby.wantToPlay': '🎮 I want to play',
+    'lobby.kickConfirm': 'Are you sure you want to kick {name}?',
+    'lobby.kickRemove': 'Just remove',
+    'lobby.kickBan': '⛔ Remove and ban',
+    'lobby.kickBanHint': 'A removed player can join again. A banned one cannot come back until you unban them.',
+    'lobby.banned': '⛔ Banned ({count})',
+    'lobby.unban': 'Unban',
+    'lobby.makeCoHost': '⭐ Make co-host',
+    'lobby.removeCoHost': 'Remove co-host',
+    'lobby.transferHost': '👑 Hand over host',
+    'lobby.transferConfirm': 'Make {name} the host? You will stay on as co-host.',
+    'lobby.lockedTitle': 'Settings Locked',
+    'lobby.lockedBody': 'Only the host ({host}) can change the game rules.',
+    'lobby.modeRandom': '🎲 Random',
+    'lobby.modeManual': '📝 Manual',
+    'lobby.gameLanguage': 'Game language',
+    'lobby.totalRounds': 'Total Rounds',
+    'lobby.duration': 'Time (Seconds)',
+    'lobby.categoriesCount': 'Number of Categories',
+    'lobby.categoriesSelected': 'Selected Categories',
+    'lobby.edit': 'EDIT +',
+    'lobby.randomHint': 'Picked at random every round',
+    'lobby.balanceDifficulty': '⚖️ Balance difficulty',
+    'lobby.avoidRepeats': '🔁 Avoid repeats',
+    'lobby.maxPerTag': 'Max per group',
+    'lobby.noCategories': 'No categories selected.',
+    'lobby.noCategoriesHint': 'Use the "EDIT" button to add some.',
+    'lobby.letters': 'Letters in Play',
+    'lobby.lettersAvailable': '{count} available',
+    'lobby.weightedLetters': '⚖️ Favor easy letters',
+    'lobby.viabilityCheck': '🎯 Skip impossible combos',
+    'lobby.viabilityHint': 'Letters playable with this category',
+    'lobby.letterExcluded': 'Excluded',
+    'lobby.letterInDeck': 'In the deck',
+    'lobby.lettersHint': 'Tap a letter to exclude it. Letters never repeat within a game.',
+    'lobby.scoring': 'Scoring',
+    'lobby.scoringCustom': '✏️ Custom',
+    'lobby.scoreSolo': 'Solo',
+    'lobby.scoreUnique': 'Unique',
+    'lobby.scoreDuplicate': 'Repeated',
+    'lobby.scoreStopBonus': 'Stop',
+    'lobby.catchUp': '🪜 Late joiners start with the lowest score',
+    'lobby.moderation': 'Bad words',
+    'lobby.moderationOff': '🔓 No filter',
+    'lobby.moderationMask': '🙈 Censor',
+    'lobby.moderationReject': '🚫 Reject',
+    'lobby.severityLow': 'Strict',
+    'lobby.severityMedium': 'Normal',
+    'lobby.severityHigh': 'Only severe',
+    'lobby.start': 'START GAME',
+    'lobby.manualTitle': 'Manual Selection',
+    'lobby.selectedCount': '{count} selected',
+    'lobby.search': '🔍 Search category...',
+    'lobby.allTags': 'All',
+    'lobby.customOpen': '➕ Create your own category',
+    'lobby.customClose': '✖ Close',
+    'lobby.customName': 'Name (e.g. Office stuff)',
+    'lobby.customTags': 'Comma-separated tags (optional)',
+    'lobby.customWords': 'Accepted words (one per line, comma-separated or JSON). Empty = players vote.',
+    'lobby.customWordCount': '{count} / {max} words',
+    'lobby.customAdd': 'Add',
+    'lobby.noResults': 'No results found',
+    'lobby.save': 'Save Changes',
+
+    // Presets (shared ids -> labels)
+    'letters.COMPLETO': 'Full (A-Z)',
+    'letters.CLASICO': 'Classic without K/W/X/Y/Z',
+    'letters.CON_ENE': 'Includes Ñ',
+    'scoring.CLASICO': 'Classic (100/50)',
+    'scoring.ARGENTINO': 'Argentine (20/10/5)',
+    'scoring.SOLO_BONUS': 'Lone Wolf Bonus',
+
+    // Game
+    'game.connectionLost': '⚠️ Connection Lost',
+    'game.spectating': "You're watching",
+    'game.spectatingHint': 'Answers are revealed when the round ends.',
+    'game.willPlayNext': "✅ You'll play next round",
+    'game.playNext': '🎮 Play next round',
+    'game.exitTitle': 'Leave the game?',
+    'game.round': 'Round',
+    'game.waiting': '⏳ {count} waiting',
+    'game.lettersLeft': '🔤 {count} left',
+    'game.progress': 'Progress',
+    'game.stop': 'STOP',
+    'game.votesSent': 'Sent ✅',
+    'game.confirmVotes': 'Confirm Votes',
+    'game.nextRound': 'Next Round ➡️',
+
+    // Review
+    'review.stop': 'STOP!',
+    'review.stoppedBy': 'Stopped by {name}',
+    'review.inProgress': 'Review in Progress',
+    'review.didYouMean': 'Did you mean',
+    'review.blacklisted': '🚫 Word not allowed',
+    'review.wrongLetter': "🔤 Doesn't start with the round letter",
+    'review.notInDictionary': '📖 Not in the dictionary',
+    'review.voteNo': '👎 NO',
+    'review.voteYes': 'YES',
+
+    // Results
+    'results.standings': 'Standings',
+    'results.yourRound': 'Your Round',
+
+    // Game over
+    'gameOver.victory': 'VICTORY!',
+    'gameOver.byForfeit': '🏆 By Forfeit',
+    'gameOver.rivalsLeft': 'Your rivals gave up.',
+    'gameOver.title': 'GAME OVER',
+    'gameOver.podium': 'Final Podium',
+    'gameOver.standings': 'Leaderboard',
+    'gameOver.newGame': '🔄 New Game',
+    'gameOver.exit': '🚪 Leave',
+
+    // Toasts
+    'toast.playerBack': '{avatar} {name} is back.',
+    'toast.playerLeft': '{avatar} {name} left.',
+    'toast.playerJoined': '{avatar} {name} joined.',
+    'toast.youAreHost': "👑 You're the host now!",
+    'toast.fillAll': '⚠️ Fill in every category to stop'
+};
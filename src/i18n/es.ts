@@ -0,0 +1,162 @@
+// Spanish is the source catalog: its keys type the other languages.
+// Placeholders use {name} and are filled by `t()`.
+export const es = {
+    // App
+    'app.connected': 'Conectado',
+    'app.disconnected': 'Desconectado',
+    'app.kicked': 'Has sido expulsado de la sala por el anfitrión.',
+    'app.banned': 'Has sido expulsado y no puedes volver a entrar a esta sala.',
+
+    // Home
+    'home.welcome': 'Bienvenido',
+    'home.language': 'Idioma',
+    'home.chooseAvatar': 'Elige tu Avatar',
+    'home.yourName': 'Tu Nombre',
+    'home.namePlaceholder': '¿Cómo te llamas?',
+    'home.createRoom': 'Crear Nueva Sala',
+    'home.joinRoom': 'Unirse a Sala',
+    'home.roomCode': 'Código de Sala',
+    'home.enter': 'Entrar',
+    'home.watchOnly': '👀 Solo mirar',
+    'home.nameRequired': 'Por favor ingresa tu nombre primero',
+    'home.invalidCode': 'Código de sala inválido',
+
+    // Common
+    'common.cancel': 'Cancelar',
+    'common.exit': 'Salir',
+    'common.me': 'YO',
+    'common.points': '{score} pts',
+    'common.waitingHost': 'Esperando al anfitrión...',
+
+    // Lobby
+    'lobby.title': 'CENTRO DE MANDO',
+    'lobby.roomCode': 'Código de Sala',
+    'lobby.shareCode': 'Comparte este código para invitar',
+    'lobby.players': 'Jugadores',
+    'lobby.connected': 'Conectado',
+    'lobby.disconnected': 'Desconectado',
+    'lobby.spectators': '👀 Espectadores ({count})',
+    'lobby.queued': '⏳ EN COLA',
+    'lobby.wantToPlay': '🎮 Quiero jugar',
+    'lobby.kickConfirm': '¿Estás seguro de que quieres expulsar a {name}?',
+    'lobby.kickRemove': 'Solo expulsar',
+    'lobby.kickBan': '⛔ Expulsar y bloquear',
+    'lobby.kickBanHint': 'Si solo lo expulsas puede volver a entrar. Bloqueado no podrá volver hasta que lo desbloquees.',
+    'lobby.banned': '⛔ Bloqueados ({count})',
+    'lobby.unban': 'Desbloquear',
+    'lobby.makeCoHost': '⭐ Hacer co-anfitrión',
+    'lobby.removeCoHost': 'Quitar co-anfitrión',
+    'lobby.transferHost': '👑 Ceder anfitrión',
+    'lobby.transferConfirm': '¿Ceder el rol de anfitrión a {name}? Seguirás como co-anfitrión.',
+    'lobby.lockedTitle': 'Configuración Bloqueada',
+    'lobby.lockedBody': 'Solo el anfitrión ({host}) puede modificar las reglas del juego.',
+    'lobby.modeRandom': '🎲 Aleatorio',
+    'lobby.modeManual': '📝 Manual',
+    'lobby.gameLanguage': 'Idioma de la partida',
+    'lobby.totalRounds': 'Rondas Totales',
+    'lobby.duration': 'Tiempo (Segundos)',
+    'lobby.categoriesCount': 'Cantidad de Categorías',
+    'lobby.categoriesSelected': 'Categorías Seleccionadas',
+    'lobby.edit': 'EDITAR +',
+    'lobby.randomHint': 'Se elegirán al azar en cada ronda',
+    'lobby.balanceDifficulty': '⚖️ Equilibrar dificultad',
+    'lobby.avoidRepeats': '🔁 Evitar repetidas',
+    'lobby.maxPerTag': 'Máx. por grupo',
+    'lobby.noCategories': 'No hay categorías seleccionadas.',
+    'lobby.noCategoriesHint': 'Usa el botón "EDITAR" para agregar.',
+    'lobby.letters': 'Letras en Juego',
+    'lobby.lettersAvailable': '{count} disponibles',
+    'lobby.weightedLetters': '⚖️ Priorizar fáciles',
+    'lobby.viabilityCheck': '🎯 Evitar combinaciones imposibles',
+    'lobby.viabilityHint': 'Letras jugables con esta categoría',
+    'lobby.letterExcluded': 'Excluida',
+    'lobby.letterInDeck': 'En el mazo',
+    'lobby.lettersHint': 'Toca una letra para excluirla. Las letras no se repiten dentro de una partida.',
+    'lobby.scoring': 'Puntuación',
+    'lobby.scoringCustom': '✏️ Personalizada',
+    'lobby.scoreSolo': 'Solo',
+    'lobby.scoreUnique': 'Única',
+    'lobby.scoreDuplicate': 'Repetida',
+    'lobby.scoreStopBonus': 'Basta',
+    'lobby.catchUp': '🪜 Rezagados parten con el puntaje mínimo',
+    'lobby.moderation': 'Malas palabras',
+    'lobby.moderationOff': '🔓 Sin filtro',
+    'lobby.moderationMask': '🙈 Censurar',
+    'lobby.moderationReject': '🚫 Rechazar',
+    'lobby.severityLow': 'Estricto',
+    'lobby.severityMedium': 'Normal',
+    'lobby.severityHigh': 'Solo graves',
+    'lobby.start': 'INICIAR PARTIDA',
+    'lobby.manualTitle': 'Selección Manual',
+    'lobby.selectedCount': '{count} elegidas',
+    'lobby.search': '🔍 Buscar categoría...',
+    'lobby.allTags': 'Todo',
+    'lobby.customOpen': '➕ Crear categoría propia',
+    'lobby.customClose': '✖ Cerrar',
+    'lobby.customName': 'Nombre (ej: Cosas de la oficina)',
+    'lobby.customTags': 'Etiquetas separadas por coma (opcional)',
+    'lobby.customWords': 'Palabras aceptadas (una por línea, separadas por coma o JSON). Vacío = se vota.',
+    'lobby.customWordCount': '{count} / {max} palabras',
+    'lobby.customAdd': 'Agregar',
+    'lobby.noResults': 'No se encontraron resultados',
+    'lobby.save': 'Guardar Cambios',
+
+    // Presets (shared ids -> labels)
+    'letters.COMPLETO': 'Completo (A-Z)',
+    'letters.CLASICO': 'Clásico sin K/W/X/Y/Z',
+    'letters.CON_ENE': 'Incluye Ñ',
+    'scoring.CLASICO': 'Clásico (100/50)',
+    'scoring.ARGENTINO': 'Argentino (20/10/5)',
+    'scoring.SOLO_BONUS': 'Bonus Solitario',
+
+    // Game
+    'game.connectionLost': '⚠️ Conexión Perdida',
+    'game.spectating': 'Estás mirando',
+    'game.spectatingHint': 'Las respuestas se revelan al terminar la ronda.',
+    'game.willPlayNext': '✅ Jugarás la próxima ronda',
+    'game.playNext': '🎮 Jugar la próxima ronda',
+    'game.exitTitle': '¿Salir de la partida?',
+    'game.round': 'Ronda',
+    'game.waiting': '⏳ {count} esperando',
+    'game.lettersLeft': '🔤 Quedan {count}',
+    'game.progress': 'Progreso',
+    'game.stop': 'BASTA',
+    'game.votesSent': 'Enviado ✅',
+    'game.confirmVotes': 'Confirmar Votos',
+    'game.nextRound': 'Siguiente Ronda ➡️',
+
+    // Review
+    'review.stop': '¡BASTA!',
+    'review.stoppedBy': 'Detenido por {name}',
+    'review.inProgress': 'Revisión en Progreso',
+    'review.didYouMean': '¿Quisiste decir',
+    'review.blacklisted': '🚫 Palabra no permitida',
+    'review.wrongLetter': '🔤 No empieza con la letra de la ronda',
+    'review.notInDictionary': '📖 No figura en el diccionario',
+    'review.voteNo': '👎 NO',
+    'review.voteYes': 'SI',
+
+    // Results
+    'results.standings': 'Posiciones Finales',
+    'results.yourRound': 'Tu Desempeño',
+
+    // Game over
+    'gameOver.victory': '¡VICTORIA!',
+    'gameOver.byForfeit': '🏆 Por Abandono',
+    'gameOver.rivalsLeft': 'Tus rivales se han rendido.',
+    'gameOver.title': 'GAME OVER',
+    'gameOver.podium': 'Podio Final',
+    'gameOver.standings': 'Tabla General',
+    'gameOver.newGame': '🔄 Nueva Partida',
+    'gameOver.exit': '🚪 Salir',
+
+    // Toasts
+    'toast.playerBack': '{avatar} {name} volvió.',
+    'toast.playerLeft': '{avatar} {name} salió.',
+    'toast.playerJoined': '{avatar} {name} entró.',
+    'toast.youAreHost': '👑 ¡Ahora eres el Anfitrión!',
+    'toast.fillAll': '⚠️ Completa todas las categorías para parar'
+};
+
+export type MessageKey = keyof typeof es;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,159 @@
+import type { Messages } from './es';
+
+export const pt: Messages = {
+    // App
+    'app.connected': 'Conectado',
+    'app.disconnected': 'Desconectado',
+    'app.kicked': 'Você foi expulso da sala pelo anfitrião.',
+    'app.banned': 'Você foi banido e não pode voltar a esta sala.',
+
+    // Home
+    'home.welcome': 'Bem-vindo',
+    'home.language': 'Idioma',
+    'home.chooseAvatar': 'Escolha seu Avatar',
+    'home.yourName': 'Seu Nome',
+    'home.namePlaceholder': 'Como você se chama?',
+    'home.createRoom': 'Criar Nova Sala',
+    'home.joinRoom': 'Entrar numa Sala',
+    'home.roomCode': 'Código da Sala',
+    'home.enter': 'Entrar',
+    'home.watchOnly': '👀 Só assistir',
+    'home.nameRequired': 'Por favor, digite seu nome primeiro',
+    'home.invalidCode': 'Código de sala inválido',
+
+    // Common
+    'common.cancel': 'Cancelar',
+    'common.exit': 'Sair',
+    'common.me': 'EU',
+    'common.points': '{score} pts',
+    'common.waitingHost': 'Esperando o anfitrião...',
+
+    // Lobby
+    'lobby.title': 'CENTRAL DE COMANDO',
+    'lobby.roomCode': 'Código da Sala',
+    'lobby.shareCode': 'Compartilhe este código para convidar',
+    'lobby.players': 'Jogadores',
+    'lobby.connected': 'Conectado',
+    'lobby.disconnected': 'Desconectado',
+    'lobby.spectators': '👀 Espectadores ({count})',
+    'lobby.queued': '⏳ NA FILA',
+    'lobby.wantToPlay': '🎮 Quero jogar',
+    'lobby.kickConfirm': 'Tem certeza de que quer expulsar {name}?',
+    'lobby.kickRemove': 'Só expulsar',
+    'lobby.kickBan': '⛔ Expulsar e banir',
+    'lobby.kickBanHint': 'Quem só foi expulso pode entrar de novo. Quem foi banido não volta até você desbanir.',
+    'lobby.banned': '⛔ Banidos ({count})',
+    'lobby.unban': 'Desbanir',
+    'lobby.makeCoHost': '⭐ Tornar co-anfitrião',
+    'lobby.removeCoHost': 'Remover co-anfitrião',
+    'lobby.transferHost': '👑 Passar anfitrião',
+    'lobby.transferConfirm': 'Passar o papel de anfitrião para {name}? Você continua como co-anfitrião.',
+    'lobby.lockedTitle': 'Configuração Bloqueada',
+    'lobby.lockedBody': 'Só o anfitrião ({host}) pode mudar as regras do jogo.',
+    'lobby.modeRandom': '🎲 Aleatório',
+    'lobby.modeManual': '📝 Manual',
+    'lobby.gameLanguage': 'Idioma da partida',
+    'lobby.totalRounds': 'Total de Rodadas',
+    'lobby.duration': 'Tempo (Segundos)',
+    'lobby.categoriesCount': 'Quantidade de Categorias',
+    'lobby.categoriesSelected': 'Categorias Selecionadas',
+    'lobby.edit': 'EDITAR +',
+    'lobby.randomHint': 'Sorteadas a cada rodada',
+    'lobby.balanceDifficulty': '⚖️ Equilibrar dificuldade',
+    'lobby.avoidRepeats': '🔁 Evitar repetidas',
+    'lobby.maxPerTag': 'Máx. por grupo',
+    'lobby.noCategories': 'Nenhuma categoria selecionada.',
+    'lobby.noCategoriesHint': 'Use o botão "EDITAR" para adicionar.',
+    'lobby.letters': 'Letras em Jogo',
+    'lobby.lettersAvailable': '{count} disponíveis',
+    'lobby.weightedLetters': '⚖️ Priorizar fáceis',
+    'lobby.viabilityCheck': '🎯 Evitar combinações impossíveis',
+    'lobby.viabilityHint': 'Letras jogáveis com esta categoria',
+    'lobby.letterExcluded': 'Excluída',
+    'lobby.letterInDeck': 'No baralho',
+    'lobby.lettersHint': 'Toque numa letra para excluí-la. As letras não se repetem numa partida.',
+    'lobby.scoring': 'Pontuação',
+    'lobby.scoringCustom': '✏️ Personalizada',
+    'lobby.scoreSolo': 'Sozinho',
+    'lobby.scoreUnique': 'Única',
+    'lobby.scoreDuplicate': 'Repetida',
+    'lobby.scoreStopBonus': 'Stop',
+    'lobby.catchUp': '🪜 Atrasados começam com a menor pontuação',
+    'lobby.moderation': 'Palavrões',
+    'lobby.moderationOff': '🔓 Sem filtro',
+    'lobby.moderationMask': '🙈 Censurar',
+    'lobby.moderationReject': '🚫 Rejeitar',
+    'lobby.severityLow': 'Rigoroso',
+    'lobby.severityMedium': 'Normal',
+    'lobby.severityHigh': 'Só graves',
+    'lobby.start': 'INICIAR PARTIDA',
+    'lobby.manualTitle': 'Seleção Manual',
+    'lobby.selectedCount': '{count} escolhidas',
+    'lobby.search': '🔍 Buscar categoria...',
+    'lobby.allTags': 'Tudo',
+    'lobby.customOpen': '➕ Criar categoria própria',
+    'lobby.customClose': '✖ Fechar',
+    'lobby.customName': 'Nome (ex: Coisas do escritório)',
+    'lobby.customTags': 'Etiquetas separadas por vírgula (opcional)',
+    'lobby.customWords': 'Palavras aceitas (uma por linha, separadas por vírgula ou JSON). Vazio = votação.',
+    'lobby.customWordCount': '{count} / {max} palavras',
+    'lobby.customAdd': 'Adicionar',
+    'lobby.noResults': 'Nenhum resultado encontrado',
+    'lobby.save': 'Salvar Alterações',
+
+    // Presets (shared ids -> labels)
+    'letters.COMPLETO': 'Completo (A-Z)',
+    'letters.CLASICO': 'Clássico sem K/W/X/Y/Z',
+    'letters.CON_ENE': 'Inclui Ñ',
+    'scoring.CLASICO': 'Clássico (100/50)',
+    'scoring.ARGENTINO': 'Argentino (20/10/5)',
+    'scoring.SOLO_BONUS': 'Bônus Solitário',
+
+    // Game
+    'game.connectionLost': '⚠️ Conexão Perdida',
+    'game.spectating': 'Você está assistindo',
+    'game.spectatingHint': 'As respostas aparecem quando a rodada termina.',
+    'game.willPlayNext': '✅ Você joga a próxima rodada',
+    'game.playNext': '🎮 Jogar a próxima rodada',
+    'game.exitTitle': 'Sair da partida?',
+    'game.round': 'Rodada',
+    'game.waiting': '⏳ {count} esperando',
+    'game.lettersLeft': '🔤 Restam {count}',
+    'game.progress': 'Progresso',
+    'game.stop': 'STOP',
+    'game.votesSent': 'Enviado ✅',
+    'game.confirmVotes': 'Confirmar Votos',
+    'game.nextRound': 'Próxima Rodada ➡️',
+
+    // Review
+    'review.stop': 'STOP!',
+    'review.stoppedBy': 'Parado por {name}',
+    'review.inProgress': 'Revisão em Andamento',
+    'review.didYouMean': 'Você quis dizer',
+    'review.blacklisted': '🚫 Palavra não permitida',
+    'review.wrongLetter': '🔤 Não começa com a letra da rodada',
+    'review.notInDictionary': '📖 Não está no dicionário',
+    'review.voteNo': '👎 NÃO',
+    'review.voteYes': 'SIM',
+
+    // Results
+    'results.standings': 'Classificação',
+    'results.yourRound': 'Seu Desempenho',
+
+    // Game over
+    'gameOver.victory': 'VITÓRIA!',
+    'gameOver.byForfeit': '🏆 Por Abandono',
+    'gameOver.rivalsLeft': 'Seus rivais desistiram.',
+    'gameOver.title': 'FIM DE JOGO',
+    'gameOver.podium': 'Pódio Final',
+    'gameOver.standings': 'Tabela Geral',
+    'gameOver.newGame': '🔄 Nova Partida',
+    'gameOver.exit': '🚪 Sair',
+
+    // Toasts
+    'toast.playerBack': '{avatar} {name} voltou.',
+    'toast.playerLeft': '{avatar} {name} saiu.',
+    'toast.playerJoined': '{avatar} {name} entrou.',
+    'toast.youAreHost': '👑 Agora você é o anfitrião!',
+    'toast.fillAll': '⚠️ Preencha todas as categorias para parar'
+};